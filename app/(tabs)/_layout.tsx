@@ -5,10 +5,17 @@ import { HapticTab } from '@/components/haptic-tab';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { Colors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useOrders } from '@/hooks/use-orders';
+import { useTicketWalletSync } from '@/hooks/use-ticket-wallet';
 
 export default function TabLayout() {
   const colorScheme = useColorScheme();
   const pathname = usePathname();
+  const { data: orders } = useOrders();
+
+  // Download entry QR codes for paid orders so tickets work without connectivity. Only loaded
+  // pages are synced; orders come newest first, so those are the ones for upcoming events.
+  useTicketWalletSync(orders);
 
   // Hide tab bar on auth screen (though auth is now separate, this is a safeguard)
   const shouldHideTabBar = pathname?.includes('/auth');
@@ -1,127 +1,386 @@
+import { useQueryClient } from '@tanstack/react-query';
 import { Image } from 'expo-image';
-import { useRouter } from 'expo-router';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 import React from 'react';
 import {
   ActivityIndicator,
   FlatList,
   Pressable,
   RefreshControl,
+  ScrollView,
   StyleSheet,
   View,
 } from 'react-native';
 
 import { ThemedText } from '@/components/themed-text';
+import { CartButton } from '@/components/cart-button';
+import { EventCollectionRow } from '@/components/event-collection-row';
+import { EventFiltersSheet } from '@/components/event-filters-sheet';
+import { HighlightedText } from '@/components/highlighted-text';
+import { OfflineBanner } from '@/components/offline-banner';
+import { SearchBar } from '@/components/search-bar';
 import { ThemedView } from '@/components/themed-view';
-import { useEvents } from '@/hooks/use-events';
+import { useCollections } from '@/hooks/use-collections';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import { useEventFacets, useEvents } from '@/hooks/use-events';
+import { useRecentSearches } from '@/hooks/use-recent-searches';
+import { formatRelativeEventDate } from '@/lib/dates';
+import {
+  countActiveFilters,
+  DEFAULT_FILTERS,
+  EVENT_CATEGORIES,
+  EventFilterParams,
+  EventFilters,
+  filtersFromParams,
+  filtersToParams,
+  getCategoryLabel,
+  toEventQuery,
+} from '@/lib/event-filters';
 import { Event } from '@/types/events';
 
+const SEARCH_DEBOUNCE_MS = 300;
+const MAX_SUGGESTIONS = 6;
+
+// A short excerpt of `text` around the first match of `term`, or null when it doesn't match
+function getSnippet(text: string, term: string, radius = 40): string | null {
+  const index = text.toLowerCase().indexOf(term.toLowerCase());
+  if (index === -1) return null;
+  const start = Math.max(0, index - radius);
+  const end = Math.min(text.length, index + term.length + radius);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+}
+
 export default function EventsScreen() {
   const router = useRouter();
-  const { data: events, isLoading, error, refetch, isRefetching } = useEvents('active');
+  const queryClient = useQueryClient();
+  // Search and filters live in the URL so a filtered view can be shared and restored
+  const params = useLocalSearchParams<EventFilterParams & { q?: string }>();
+  const filters = filtersFromParams(params);
+  const activeFilterCount = countActiveFilters(filters);
+  const isNarrowed = activeFilterCount > 0 || !!filters.category || !!filters.tag;
+  const [showFilters, setShowFilters] = React.useState(false);
+  const [search, setSearch] = React.useState(params.q ?? '');
+  const [isSearchFocused, setIsSearchFocused] = React.useState(false);
+  const searchTerm = useDebouncedValue(search.trim(), SEARCH_DEBOUNCE_MS);
+  const { recentSearches, remember, clear: clearRecentSearches } = useRecentSearches();
+  const {
+    data: events,
+    isLoading,
+    error,
+    refetch,
+    refresh,
+    isRefetching,
+    isFetching,
+    isPlaceholderData,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+    fetchStatus,
+    dataUpdatedAt,
+  } = useEvents({ status: 'active', q: searchTerm || undefined, ...toEventQuery(filters) });
+  // Filter options and suggestions cover every active event, not only the loaded pages
+  const { data: facets } = useEventFacets({ status: 'active' });
+  const { data: collections } = useCollections();
+  const showCollections = !searchTerm && !isNarrowed && !!collections?.length;
 
-  const formatDate = (dateString: string) => {
-    try {
-      const date = new Date(dateString);
-      return date.toLocaleDateString('en-US', {
-        month: 'short',
-        day: 'numeric',
-        year: 'numeric',
-        hour: 'numeric',
-        minute: '2-digit',
-      });
-    } catch {
-      return dateString;
+  const venues = React.useMemo(() => [...(facets?.venues ?? [])].sort(), [facets]);
+  const priceBounds =
+    facets && facets.min_price !== null && facets.max_price !== null
+      ? { min: facets.min_price, max: facets.max_price }
+      : null;
+  const suggestions = React.useMemo(
+    () => Array.from(new Set([...recentSearches, ...venues])).slice(0, MAX_SUGGESTIONS),
+    [venues, recentSearches]
+  );
+
+  React.useEffect(() => {
+    router.setParams({ q: searchTerm || undefined });
+  }, [router, searchTerm]);
+
+  const applyFilters = (next: EventFilters) => {
+    router.setParams(filtersToParams(next));
+  };
+
+  const handleRefresh = () => {
+    refresh();
+    if (showCollections) {
+      queryClient.invalidateQueries({ queryKey: ['collections'] });
+      queryClient.invalidateQueries({ queryKey: ['collection'] });
     }
   };
 
-  const renderEvent = ({ item }: { item: Event }) => (
-    <Pressable
-      style={styles.eventCard}
-      onPress={() => router.push(`/event/${item.event_id}`)}>
-      {item.image_url ? (
-        <Image source={{ uri: item.image_url }} style={styles.eventImage} contentFit="cover" />
-      ) : (
-        <View style={[styles.eventImage, styles.placeholderImage]}>
-          <ThemedText style={styles.placeholderText}>No Image</ThemedText>
-        </View>
-      )}
-      <View style={styles.eventContent}>
-        <ThemedText type="defaultSemiBold" style={styles.eventTitle} numberOfLines={2}>
-          {item.title}
-        </ThemedText>
-        <ThemedText style={styles.eventVenue} numberOfLines={1}>
-          📍 {item.venue}
-        </ThemedText>
-        <ThemedText style={styles.eventDate} numberOfLines={1}>
-          🗓️ {formatDate(item.event_date)}
-        </ThemedText>
-        <View style={styles.priceRow}>
-          <ThemedText style={styles.priceLabel}>From:</ThemedText>
-          <ThemedText type="defaultSemiBold" style={styles.price}>
-            ${Math.min(...item.ticket_types.map((tt) => tt.price)).toFixed(2)}
+  const isSearching = search.trim() !== searchTerm || (isFetching && isPlaceholderData);
+  const showRecentSearches = isSearchFocused && !search && recentSearches.length > 0;
+
+  const openEvent = (eventId: string) => {
+    if (searchTerm) {
+      remember(searchTerm);
+    }
+    router.push(`/event/${eventId}`);
+  };
+
+  const renderEvent = ({ item }: { item: Event }) => {
+    // Explain why a result matched when the term only appears in the description
+    const descriptionSnippet =
+      searchTerm &&
+      !item.title.toLowerCase().includes(searchTerm.toLowerCase()) &&
+      !item.venue.toLowerCase().includes(searchTerm.toLowerCase())
+        ? getSnippet(item.description, searchTerm)
+        : null;
+
+    return (
+      <Pressable style={styles.eventCard} onPress={() => openEvent(item.event_id)}>
+        {item.image_url ? (
+          <Image source={{ uri: item.image_url }} style={styles.eventImage} contentFit="cover" />
+        ) : (
+          <View style={[styles.eventImage, styles.placeholderImage]}>
+            <ThemedText style={styles.placeholderText}>No Image</ThemedText>
+          </View>
+        )}
+        <View style={styles.eventContent}>
+          <HighlightedText
+            type="defaultSemiBold"
+            style={styles.eventTitle}
+            numberOfLines={2}
+            text={item.title}
+            query={searchTerm}
+          />
+          <ThemedText style={styles.eventVenue} numberOfLines={1}>
+            📍 <HighlightedText style={styles.eventVenue} text={item.venue} query={searchTerm} />
           </ThemedText>
-        </View>
-        <View style={styles.ticketTypesRow}>
-          {item.ticket_types.slice(0, 3).map((tt, idx) => (
-            <View key={idx} style={styles.ticketTypeBadge}>
-              <ThemedText style={styles.ticketTypeText}>
-                {tt.name} ({tt.available} left)
-              </ThemedText>
+          <ThemedText style={styles.eventDate} numberOfLines={1}>
+            🗓️ {formatRelativeEventDate(item)}
+          </ThemedText>
+          {descriptionSnippet && (
+            <HighlightedText
+              style={styles.eventSnippet}
+              numberOfLines={2}
+              text={descriptionSnippet}
+              query={searchTerm}
+            />
+          )}
+          {(item.category || !!item.tags?.length) && (
+            <View style={styles.tagRow}>
+              {item.category && (
+                <ThemedText style={styles.categoryText}>{getCategoryLabel(item.category)}</ThemedText>
+              )}
+              {item.tags?.map((tag) => (
+                <Pressable
+                  key={tag}
+                  hitSlop={4}
+                  onPress={() => applyFilters({ ...filters, tag })}>
+                  <ThemedText style={styles.tagText}>#{tag}</ThemedText>
+                </Pressable>
+              ))}
             </View>
-          ))}
-          {item.ticket_types.length > 3 && (
-            <ThemedText style={styles.moreTypes}>+{item.ticket_types.length - 3} more</ThemedText>
           )}
+          <View style={styles.priceRow}>
+            <ThemedText style={styles.priceLabel}>From:</ThemedText>
+            <ThemedText type="defaultSemiBold" style={styles.price}>
+              ${Math.min(...item.ticket_types.map((tt) => tt.price)).toFixed(2)}
+            </ThemedText>
+          </View>
+          <View style={styles.ticketTypesRow}>
+            {item.ticket_types.slice(0, 3).map((tt, idx) => (
+              <View key={idx} style={styles.ticketTypeBadge}>
+                <ThemedText style={styles.ticketTypeText}>
+                  {tt.name} ({tt.available} left)
+                </ThemedText>
+              </View>
+            ))}
+            {item.ticket_types.length > 3 && (
+              <ThemedText style={styles.moreTypes}>+{item.ticket_types.length - 3} more</ThemedText>
+            )}
+          </View>
         </View>
-      </View>
-    </Pressable>
+      </Pressable>
+    );
+  };
+
+  const renderChips = (terms: string[]) => (
+    <View style={styles.chipRow}>
+      {terms.map((term) => (
+        <Pressable key={term} style={styles.chip} onPress={() => setSearch(term)}>
+          <ThemedText style={styles.chipText}>{term}</ThemedText>
+        </Pressable>
+      ))}
+    </View>
   );
 
-  if (isLoading) {
-    return (
-      <View style={styles.centerContainer}>
-        <ActivityIndicator size="large" />
-        <ThemedText style={styles.loadingText}>Loading events...</ThemedText>
+  const renderEmpty = () =>
+    searchTerm ? (
+      <View style={styles.emptyContainer}>
+        <ThemedText style={styles.emptyText}>No events match “{searchTerm}”</ThemedText>
+        {suggestions.length > 0 && (
+          <>
+            <ThemedText style={styles.emptySubtext}>Try one of these instead:</ThemedText>
+            {renderChips(suggestions)}
+          </>
+        )}
       </View>
-    );
-  }
-
-  if (error) {
-    return (
-      <View style={styles.centerContainer}>
-        <ThemedText style={styles.errorText}>Failed to load events</ThemedText>
-        <Pressable style={styles.retryButton} onPress={() => refetch()}>
-          <ThemedText style={styles.retryButtonText}>Retry</ThemedText>
+    ) : isNarrowed ? (
+      <View style={styles.emptyContainer}>
+        <ThemedText style={styles.emptyText}>No events match these filters</ThemedText>
+        <Pressable style={styles.retryButton} onPress={() => applyFilters({ ...DEFAULT_FILTERS, sort: filters.sort })}>
+          <ThemedText style={styles.retryButtonText}>Clear Filters</ThemedText>
         </Pressable>
       </View>
-    );
-  }
-
-  if (!events || events.length === 0) {
-    return (
-      <View style={styles.centerContainer}>
+    ) : (
+      <View style={styles.emptyContainer}>
         <ThemedText style={styles.emptyText}>No events available</ThemedText>
         <ThemedText style={styles.emptySubtext}>Check back later for new events!</ThemedText>
       </View>
     );
-  }
 
-  return (
-    <ThemedView style={styles.container}>
-      <ThemedView style={styles.header}>
-        <ThemedText type="title">Events</ThemedText>
-        <ThemedText style={styles.subtitle}>Discover upcoming events</ThemedText>
-      </ThemedView>
+  const renderCollections = () => (
+    <View>
+      {collections?.map((collection) => (
+        <EventCollectionRow
+          key={collection.collection_id}
+          collection={collection}
+          onPressEvent={openEvent}
+        />
+      ))}
+      <ThemedText type="subtitle" style={styles.sectionTitle}>
+        All Events
+      </ThemedText>
+    </View>
+  );
+
+  const renderBody = () => {
+    // Paused means offline with nothing cached yet – a spinner would never resolve
+    if (isLoading && fetchStatus === 'paused') {
+      return (
+        <View style={styles.centerContainer}>
+          <ThemedText style={styles.errorText}>You&apos;re offline</ThemedText>
+          <ThemedText style={styles.emptySubtext}>Events will load once you reconnect.</ThemedText>
+        </View>
+      );
+    }
+
+    if (isLoading) {
+      return (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" />
+          <ThemedText style={styles.loadingText}>
+            {searchTerm ? 'Searching events...' : 'Loading events...'}
+          </ThemedText>
+        </View>
+      );
+    }
+
+    if (error) {
+      return (
+        <View style={styles.centerContainer}>
+          <ThemedText style={styles.errorText}>Failed to load events</ThemedText>
+          <Pressable style={styles.retryButton} onPress={() => refetch()}>
+            <ThemedText style={styles.retryButtonText}>Retry</ThemedText>
+          </Pressable>
+        </View>
+      );
+    }
+
+    return (
       <FlatList
-        data={events}
+        data={events ?? []}
         renderItem={renderEvent}
         keyExtractor={(item) => item.event_id}
         contentContainerStyle={styles.listContent}
+        ListHeaderComponent={showCollections ? renderCollections : null}
+        ListEmptyComponent={renderEmpty}
+        keyboardShouldPersistTaps="handled"
+        onEndReached={() => hasNextPage && !isFetchingNextPage && fetchNextPage()}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={
+          isFetchingNextPage ? <ActivityIndicator style={styles.footerSpinner} /> : null
+        }
         refreshControl={
-          <RefreshControl refreshing={isRefetching} onRefresh={refetch} tintColor="#007AFF" />
+          <RefreshControl refreshing={isRefetching} onRefresh={handleRefresh} tintColor="#007AFF" />
         }
         showsVerticalScrollIndicator={false}
       />
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedView style={styles.header}>
+        <View style={styles.headerText}>
+          <ThemedText type="title">Events</ThemedText>
+          <ThemedText style={styles.subtitle}>Discover upcoming events</ThemedText>
+        </View>
+        <CartButton />
+      </ThemedView>
+      <View style={styles.searchContainer}>
+        <View style={styles.searchRow}>
+          <View style={styles.searchField}>
+            <SearchBar
+              value={search}
+              onChangeText={setSearch}
+              placeholder="Search events, venues..."
+              onFocus={() => setIsSearchFocused(true)}
+              onBlur={() => setIsSearchFocused(false)}
+              onSubmitEditing={() => remember(search)}
+            />
+            {isSearching && <ActivityIndicator size="small" style={styles.searchSpinner} />}
+          </View>
+          <Pressable
+            style={[styles.filterButton, activeFilterCount > 0 && styles.filterButtonActive]}
+            onPress={() => setShowFilters(true)}>
+            <ThemedText style={[styles.filterButtonText, activeFilterCount > 0 && styles.filterButtonTextActive]}>
+              {activeFilterCount > 0 ? `Filters (${activeFilterCount})` : 'Filters'}
+            </ThemedText>
+          </Pressable>
+        </View>
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.chipRow}
+          keyboardShouldPersistTaps="handled">
+          {filters.tag && (
+            <Pressable
+              style={[styles.chip, styles.chipSelected]}
+              onPress={() => applyFilters({ ...filters, tag: undefined })}
+              accessibilityLabel={`Remove tag ${filters.tag}`}>
+              <ThemedText style={[styles.chipText, styles.chipTextSelected]}>#{filters.tag} ✕</ThemedText>
+            </Pressable>
+          )}
+          {[{ value: undefined, label: 'All' }, ...EVENT_CATEGORIES].map((option) => {
+            const selected = filters.category === option.value;
+            return (
+              <Pressable
+                key={option.label}
+                style={[styles.chip, selected && styles.chipSelected]}
+                onPress={() => applyFilters({ ...filters, category: option.value })}>
+                <ThemedText style={[styles.chipText, selected && styles.chipTextSelected]}>
+                  {option.label}
+                </ThemedText>
+              </Pressable>
+            );
+          })}
+        </ScrollView>
+        {showRecentSearches && (
+          <View style={styles.recentSearches}>
+            <View style={styles.recentHeader}>
+              <ThemedText style={styles.recentTitle}>Recent searches</ThemedText>
+              <Pressable onPress={clearRecentSearches} hitSlop={8}>
+                <ThemedText style={styles.recentClear}>Clear</ThemedText>
+              </Pressable>
+            </View>
+            {renderChips(recentSearches)}
+          </View>
+        )}
+      </View>
+      <OfflineBanner updatedAt={dataUpdatedAt} />
+      {renderBody()}
+      <EventFiltersSheet
+        visible={showFilters}
+        filters={filters}
+        venues={venues}
+        priceBounds={priceBounds}
+        onApply={applyFilters}
+        onClose={() => setShowFilters(false)}
+      />
     </ThemedView>
   );
 }
@@ -138,14 +397,123 @@ const styles = StyleSheet.create({
     gap: 16,
   },
   header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
     padding: 20,
     paddingBottom: 12,
   },
+  headerText: {
+    flex: 1,
+  },
   subtitle: {
     fontSize: 14,
     color: '#666',
     marginTop: 4,
   },
+  searchContainer: {
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+    gap: 8,
+  },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  searchField: {
+    flex: 1,
+  },
+  filterButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 11,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#ccc',
+  },
+  filterButtonActive: {
+    borderColor: '#007AFF',
+    backgroundColor: 'rgba(0, 122, 255, 0.1)',
+  },
+  filterButtonText: {
+    fontSize: 14,
+  },
+  filterButtonTextActive: {
+    color: '#007AFF',
+  },
+  searchSpinner: {
+    position: 'absolute',
+    right: 48,
+    top: 12,
+  },
+  recentSearches: {
+    gap: 8,
+  },
+  recentHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  recentTitle: {
+    fontSize: 13,
+    color: '#666',
+  },
+  recentClear: {
+    fontSize: 13,
+    color: '#007AFF',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'rgba(0, 122, 255, 0.1)',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#007AFF',
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    marginBottom: 10,
+  },
+  tagRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+  },
+  categoryText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#666',
+    textTransform: 'uppercase',
+  },
+  tagText: {
+    fontSize: 13,
+    color: '#007AFF',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 40,
+    gap: 12,
+  },
+  eventSnippet: {
+    fontSize: 13,
+    color: '#666',
+    fontStyle: 'italic',
+  },
+  footerSpinner: {
+    marginVertical: 16,
+  },
   listContent: {
     padding: 16,
     paddingTop: 0,
@@ -3,11 +3,13 @@ import React from 'react';
 import { StyleSheet, View, Pressable, ActivityIndicator } from 'react-native';
 import { Redirect } from 'expo-router';
 
+import { CartButton } from '@/components/cart-button';
 import ParallaxScrollView from '@/components/parallax-scroll-view';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { useAuth } from '@/context/auth';
 import { useProfile } from '@/hooks/use-profile';
+import { formatDate } from '@/lib/dates';
 
 export default function HomeScreen() {
   const { user, signOut, accessToken } = useAuth();
@@ -44,20 +46,6 @@ export default function HomeScreen() {
     email: user.email,
   });
 
-  const formatDate = (dateString?: string) => {
-    if (!dateString) return 'N/A';
-    try {
-      const date = new Date(dateString);
-      return date.toLocaleDateString('en-US', {
-        year: 'numeric',
-        month: 'long',
-        day: 'numeric',
-      });
-    } catch {
-      return 'N/A';
-    }
-  };
-
   return (
     <ParallaxScrollView
       headerBackgroundColor={{ light: '#A1CEDC', dark: '#1D3D47' }}
@@ -68,7 +56,10 @@ export default function HomeScreen() {
         />
       }>
       <ThemedView style={styles.titleContainer}>
-        <ThemedText type="title">Dashboard</ThemedText>
+        <View style={styles.titleRow}>
+          <ThemedText type="title">Dashboard</ThemedText>
+          <CartButton />
+        </View>
         <ThemedText>Welcome back, {user.name || user.email}!</ThemedText>
       </ThemedView>
 
@@ -107,7 +98,7 @@ export default function HomeScreen() {
             {profile?.created_at && (
               <View style={styles.profileRow}>
                 <ThemedText style={styles.label}>Member since:</ThemedText>
-                <ThemedText style={styles.value}>{formatDate(profile.created_at)}</ThemedText>
+                <ThemedText style={styles.value}>{formatDate(profile.created_at, 'longDate')}</ThemedText>
               </View>
             )}
             <View style={styles.profileRow}>
@@ -134,6 +125,11 @@ const styles = StyleSheet.create({
     gap: 4,
     marginBottom: 24,
   },
+  titleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
   profileContainer: {
     marginBottom: 24,
     padding: 16,
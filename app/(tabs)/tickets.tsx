@@ -10,27 +10,33 @@ import {
 } from 'react-native';
 
 import { ThemedText } from '@/components/themed-text';
+import { CartButton } from '@/components/cart-button';
+import { OfflineBanner } from '@/components/offline-banner';
 import { ThemedView } from '@/components/themed-view';
 import { useOrders } from '@/hooks/use-orders';
-import { useEvent } from '@/hooks/use-events';
+import { useEventsByIds } from '@/hooks/use-events';
+import { useTicketWallet } from '@/hooks/use-ticket-wallet';
+import { formatDate } from '@/lib/dates';
+import { Event } from '@/types/events';
 import { Order } from '@/types/orders';
 
 export default function TicketsScreen() {
   const router = useRouter();
-  const { data: orders, isLoading, error, refetch, isRefetching } = useOrders();
-
-  const formatDate = (dateString: string) => {
-    try {
-      const date = new Date(dateString);
-      return date.toLocaleDateString('en-US', {
-        month: 'short',
-        day: 'numeric',
-        year: 'numeric',
-      });
-    } catch {
-      return dateString;
-    }
-  };
+  const {
+    data: orders,
+    isLoading,
+    error,
+    refetch,
+    refresh,
+    isRefetching,
+    fetchStatus,
+    dataUpdatedAt,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useOrders();
+  // One request for every loaded order's event instead of one per card
+  const { data: eventsById } = useEventsByIds((orders ?? []).map((order) => order.event_id));
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -48,9 +54,21 @@ export default function TicketsScreen() {
   };
 
   const renderOrder = ({ item: order }: { item: Order }) => {
-    return <OrderCard order={order} />;
+    return <OrderCard order={order} event={eventsById?.[order.event_id]} />;
   };
 
+  // Paused means offline with nothing cached yet – a spinner would never resolve
+  if (isLoading && fetchStatus === 'paused') {
+    return (
+      <View style={styles.centerContainer}>
+        <ThemedText style={styles.errorText}>You&apos;re offline</ThemedText>
+        <ThemedText style={styles.emptySubtext}>
+          Your tickets will appear here once you reconnect.
+        </ThemedText>
+      </View>
+    );
+  }
+
   if (isLoading) {
     return (
       <View style={styles.centerContainer}>
@@ -87,24 +105,29 @@ export default function TicketsScreen() {
     );
   }
 
-  // Sort orders by date (newest first)
-  const sortedOrders = [...orders].sort(
-    (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-  );
-
   return (
     <ThemedView style={styles.container}>
       <ThemedView style={styles.header}>
-        <ThemedText type="title">My Tickets</ThemedText>
-        <ThemedText style={styles.subtitle}>View and manage your orders</ThemedText>
+        <View style={styles.headerText}>
+          <ThemedText type="title">My Tickets</ThemedText>
+          <ThemedText style={styles.subtitle}>View and manage your orders</ThemedText>
+        </View>
+        <CartButton />
       </ThemedView>
+      <OfflineBanner updatedAt={dataUpdatedAt} />
       <FlatList
-        data={sortedOrders}
+        data={orders}
+        extraData={eventsById}
         renderItem={renderOrder}
         keyExtractor={(item) => item.order_id}
         contentContainerStyle={styles.listContent}
+        onEndReached={() => hasNextPage && !isFetchingNextPage && fetchNextPage()}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={
+          isFetchingNextPage ? <ActivityIndicator style={styles.footerSpinner} /> : null
+        }
         refreshControl={
-          <RefreshControl refreshing={isRefetching} onRefresh={refetch} tintColor="#007AFF" />
+          <RefreshControl refreshing={isRefetching} onRefresh={refresh} tintColor="#007AFF" />
         }
         showsVerticalScrollIndicator={false}
       />
@@ -112,9 +135,10 @@ export default function TicketsScreen() {
   );
 }
 
-function OrderCard({ order }: { order: Order }) {
+function OrderCard({ order, event }: { order: Order; event?: Event }) {
   const router = useRouter();
-  const { data: event } = useEvent(order.event_id);
+  const { data: wallet } = useTicketWallet();
+  const isOfflineReady = order.status === 'paid' && !!wallet?.[order.order_id];
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -131,19 +155,6 @@ function OrderCard({ order }: { order: Order }) {
     }
   };
 
-  const formatDate = (dateString: string) => {
-    try {
-      const date = new Date(dateString);
-      return date.toLocaleDateString('en-US', {
-        month: 'short',
-        day: 'numeric',
-        year: 'numeric',
-      });
-    } catch {
-      return dateString;
-    }
-  };
-
   const totalTickets = order.items.reduce((sum, item) => sum + item.quantity, 0);
 
   return (
@@ -156,6 +167,11 @@ function OrderCard({ order }: { order: Order }) {
             {event?.title || 'Event'}
           </ThemedText>
           <ThemedText style={styles.orderDate}>{formatDate(order.created_at)}</ThemedText>
+          {isOfflineReady && (
+            <View style={styles.offlineBadge}>
+              <ThemedText style={styles.offlineBadgeText}>✓ Ready for offline</ThemedText>
+            </View>
+          )}
         </View>
         <View
           style={[
@@ -213,14 +229,22 @@ const styles = StyleSheet.create({
     gap: 16,
   },
   header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
     padding: 20,
     paddingBottom: 12,
   },
+  headerText: {
+    flex: 1,
+  },
   subtitle: {
     fontSize: 14,
     color: '#666',
     marginTop: 4,
   },
+  footerSpinner: {
+    marginVertical: 16,
+  },
   listContent: {
     padding: 16,
     paddingTop: 0,
@@ -254,6 +278,18 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#666',
   },
+  offlineBadge: {
+    alignSelf: 'flex-start',
+    marginTop: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    backgroundColor: '#4CAF5020',
+  },
+  offlineBadgeText: {
+    fontSize: 11,
+    color: '#2E7D32',
+  },
   statusBadge: {
     paddingHorizontal: 10,
     paddingVertical: 4,
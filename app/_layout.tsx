@@ -1,5 +1,5 @@
 import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native';
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { QueryClientProvider } from '@tanstack/react-query';
 import { Redirect, Stack, useSegments } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import React from 'react';
@@ -7,18 +7,11 @@ import { View, ActivityIndicator } from 'react-native';
 import 'react-native-reanimated';
 
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { usePersistedQueryCache } from '@/hooks/use-persisted-query-cache';
+import { PaymentProvider } from '@/components/payment-provider';
 import { AuthProvider, useAuth } from '@/context/auth';
-
-// Create a query client
-const queryClient = new QueryClient({
-  defaultOptions: {
-    queries: {
-      retry: 1,
-      staleTime: 5 * 60 * 1000, // 5 minutes
-      gcTime: 10 * 60 * 1000, // 10 minutes
-    },
-  },
-});
+import { ToastProvider } from '@/context/toast';
+import { queryClient } from '@/lib/query-client';
 
 export const unstable_settings = {
   anchor: '(tabs)',
@@ -28,6 +21,9 @@ function RootLayoutNav() {
   const { user, isLoading, pendingEmail } = useAuth();
   const segments = useSegments();
 
+  // Keep the signed-in user's orders, events and QR codes available offline
+  usePersistedQueryCache(user?.user_id);
+
   // Show loading only during initial auth state restoration
   if (isLoading && !user && !pendingEmail) {
     return (
@@ -58,8 +54,10 @@ function RootLayoutNav() {
       <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
       <Stack.Screen name="cart" options={{ presentation: 'card', title: 'Cart' }} />
       <Stack.Screen name="event/[id]" options={{ presentation: 'card', title: 'Event Details' }} />
+      <Stack.Screen name="venue/[id]" options={{ presentation: 'card', title: 'Venue' }} />
       <Stack.Screen name="order/[id]" options={{ presentation: 'card', title: 'Order Details' }} />
       <Stack.Screen name="payment/[orderId]" options={{ presentation: 'modal', title: 'Payment' }} />
+      <Stack.Screen name="checkout/[result]" options={{ title: 'Checkout' }} />
       <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
     </Stack>
   );
@@ -71,10 +69,14 @@ const RootLayout = React.memo(function RootLayout() {
   return (
     <QueryClientProvider client={queryClient}>
       <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-        <AuthProvider>
-          <RootLayoutNav />
-          <StatusBar style="auto" />
-        </AuthProvider>
+        <ToastProvider>
+          <AuthProvider>
+            <PaymentProvider>
+              <RootLayoutNav />
+              <StatusBar style="auto" />
+            </PaymentProvider>
+          </AuthProvider>
+        </ToastProvider>
       </ThemeProvider>
     </QueryClientProvider>
   );
@@ -15,9 +15,18 @@ import ParallaxScrollView from '@/components/parallax-scroll-view';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { useAuth } from '@/context/auth';
+import { ValidationError } from '@/lib/api/errors';
 
 type AuthMode = 'choice' | 'login' | 'register' | 'otp';
 
+// Inputs that can show a field error in each mode
+const FIELDS_BY_MODE: Record<AuthMode, string[]> = {
+  choice: [],
+  login: ['email', 'password'],
+  register: ['name', 'email', 'password'],
+  otp: ['otp_code'],
+};
+
 export default function AuthScreen() {
   const {
     login,
@@ -39,6 +48,21 @@ export default function AuthScreen() {
   const [name, setName] = React.useState('');
   const [otpCode, setOtpCode] = React.useState('');
   const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [fieldErrors, setFieldErrors] = React.useState<Record<string, string>>({});
+
+  // 422 responses carry per-field messages; show them under the matching input instead of an Alert.
+  // Errors for fields this mode doesn't render (or for the whole body) still need the Alert.
+  const handleSubmitError = (err: unknown, title: string, fallback: string) => {
+    if (
+      err instanceof ValidationError &&
+      FIELDS_BY_MODE[mode].some((field) => err.fieldErrors[field])
+    ) {
+      setFieldErrors(err.fieldErrors);
+      return;
+    }
+    const errorMessage = err instanceof Error ? err.message : error?.message || fallback;
+    Alert.alert(title, errorMessage);
+  };
 
   // Sync mode with pendingEmail state (restored from storage or set after login/register)
   React.useEffect(() => {
@@ -59,12 +83,12 @@ export default function AuthScreen() {
     try {
       setIsSubmitting(true);
       clearError();
+      setFieldErrors({});
       const result = await login(email, password);
       await startOtpFlow(result.email, false);
       setOtpCode('');
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : error?.message || 'Login failed';
-      Alert.alert('Login Failed', errorMessage);
+      handleSubmitError(err, 'Login Failed', 'Login failed');
     } finally {
       setIsSubmitting(false);
     }
@@ -79,12 +103,12 @@ export default function AuthScreen() {
     try {
       setIsSubmitting(true);
       clearError();
+      setFieldErrors({});
       const result = await register(email, password, name);
       await startOtpFlow(result.email, true);
       setOtpCode('');
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : error?.message || 'Registration failed';
-      Alert.alert('Registration Failed', errorMessage);
+      handleSubmitError(err, 'Registration Failed', 'Registration failed');
     } finally {
       setIsSubmitting(false);
     }
@@ -106,6 +130,7 @@ export default function AuthScreen() {
     try {
       setIsSubmitting(true);
       clearError();
+      setFieldErrors({});
       if (isRegistrationFlow) {
         await verifyEmail(pendingEmail, otpCode);
         Alert.alert(
@@ -129,8 +154,7 @@ export default function AuthScreen() {
         // User is now authenticated - RootLayoutNav will handle redirect
       }
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : error?.message || 'Invalid OTP code';
-      Alert.alert('Verification Failed', errorMessage);
+      handleSubmitError(err, 'Verification Failed', 'Invalid OTP code');
     } finally {
       setIsSubmitting(false);
     }
@@ -139,6 +163,7 @@ export default function AuthScreen() {
   const handleBackToForm = () => {
     setMode(isRegistrationFlow ? 'register' : 'login');
     setOtpCode('');
+    setFieldErrors({});
     clearError();
   };
 
@@ -147,6 +172,7 @@ export default function AuthScreen() {
     setPassword('');
     setName('');
     setMode('choice');
+    setFieldErrors({});
     clearError();
   };
 
@@ -156,6 +182,7 @@ export default function AuthScreen() {
     } else {
       setMode('login');
     }
+    setFieldErrors({});
     clearError();
   };
 
@@ -239,6 +266,9 @@ export default function AuthScreen() {
                 autoFocus
                 editable={!isSubmitting}
               />
+              {fieldErrors.otp_code && (
+                <ThemedText style={styles.fieldErrorText}>{fieldErrors.otp_code}</ThemedText>
+              )}
               <Pressable
                 style={[styles.primaryButton, (isSubmitting || !otpCode) && styles.buttonDisabled]}
                 onPress={handleVerifyOtp}
@@ -277,6 +307,9 @@ export default function AuthScreen() {
                   editable={!isSubmitting}
                 />
               )}
+              {mode === 'register' && fieldErrors.name && (
+                <ThemedText style={styles.fieldErrorText}>{fieldErrors.name}</ThemedText>
+              )}
               <TextInput
                 style={styles.input}
                 placeholder="Email"
@@ -286,6 +319,9 @@ export default function AuthScreen() {
                 onChangeText={setEmail}
                 editable={!isSubmitting}
               />
+              {fieldErrors.email && (
+                <ThemedText style={styles.fieldErrorText}>{fieldErrors.email}</ThemedText>
+              )}
               <TextInput
                 style={styles.input}
                 placeholder="Password"
@@ -294,6 +330,9 @@ export default function AuthScreen() {
                 onChangeText={setPassword}
                 editable={!isSubmitting}
               />
+              {fieldErrors.password && (
+                <ThemedText style={styles.fieldErrorText}>{fieldErrors.password}</ThemedText>
+              )}
               <Pressable
                 style={[
                   styles.primaryButton,
@@ -427,4 +466,10 @@ const styles = StyleSheet.create({
     color: '#c62828',
     fontSize: 14,
   },
+  fieldErrorText: {
+    color: '#c62828',
+    fontSize: 12,
+    marginTop: -8,
+    marginLeft: 4,
+  },
 });
@@ -1,40 +1,66 @@
+import { useQueryClient } from '@tanstack/react-query';
 import { useRouter } from 'expo-router';
 import React from 'react';
 import {
   ActivityIndicator,
   Alert,
   Pressable,
+  Platform,
   ScrollView,
   StyleSheet,
   View,
 } from 'react-native';
 
+import { CartExpiryBanner } from '@/components/cart-expiry-banner';
+import { CheckoutReviewDialog } from '@/components/checkout-review-dialog';
+import { PromoCodeInput } from '@/components/promo-code-input';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
-import { useCart, useClearCart } from '@/hooks/use-cart';
+import {
+  getCartSubtotal,
+  useCartExpiry,
+  useCarts,
+  useClearCart,
+  useExtendCart,
+  useReconcileCarts,
+  useUpdateCart,
+} from '@/hooks/use-cart';
 import { useEvent } from '@/hooks/use-events';
-import { useCreateOrder } from '@/hooks/use-orders';
+import { CartCheckoutError, useCartCheckout } from '@/hooks/use-orders';
+import { usePromoCode } from '@/hooks/use-promo-code';
 import { useAuth } from '@/context/auth';
-import { CartItem } from '@/types/cart';
-import { OrderItem } from '@/types/orders';
+import { ConflictError, getErrorMessage } from '@/lib/api/errors';
+import { CartReview } from '@/lib/cart-reconciliation';
+import { redirectToCheckout } from '@/lib/payments/web-checkout';
+import { Cart } from '@/types/cart';
+import { PromoValidation } from '@/types/promo';
+
+const getCartQuantity = (cart: Cart) => cart.items.reduce((sum, item) => sum + item.quantity, 0);
 
 export default function CartScreen() {
   const router = useRouter();
+  const queryClient = useQueryClient();
   const { user } = useAuth();
-  const [eventId, setEventId] = React.useState<string | null>(null);
-  const { data: cart, isLoading: isLoadingCart } = useCart(eventId || '');
-  const { data: event, isLoading: isLoadingEvent } = useEvent(eventId || '');
+  const { data, isLoading } = useCarts();
   const clearCartMutation = useClearCart();
-  const createOrderMutation = useCreateOrder();
+  const updateCartMutation = useUpdateCart();
+  const reconcileMutation = useReconcileCarts();
+  const checkoutMutation = useCartCheckout();
+  const [promoCode, setPromoCode] = React.useState<string | null>(null);
+  const [review, setReview] = React.useState<CartReview[] | null>(null);
+  const [isApplyingReview, setIsApplyingReview] = React.useState(false);
 
-  // Get event ID from cart
-  React.useEffect(() => {
-    if (cart?.event_id) {
-      setEventId(cart.event_id);
-    }
-  }, [cart]);
+  const carts = React.useMemo(() => (data ?? []).filter((cart) => cart.items.length > 0), [data]);
+  const promo = usePromoCode(promoCode, carts);
+  const isCheckingOut = checkoutMutation.isPending || reconcileMutation.isPending || isApplyingReview;
+  const busyCarts = checkoutMutation.isPending
+    ? checkoutMutation.variables?.carts
+    : reconcileMutation.isPending
+      ? reconcileMutation.variables
+      : review?.map((r) => r.cart);
+  const pendingEventIds = isCheckingOut ? (busyCarts ?? []).map((cart) => cart.event_id) : [];
 
-  const handleCheckout = async () => {
+  const handleCheckout = async (selected: Cart[]) => {
     if (!user) {
       Alert.alert('Authentication Required', 'Please sign in to checkout', [
         { text: 'Cancel', style: 'cancel' },
@@ -43,66 +69,119 @@ export default function CartScreen() {
       return;
     }
 
-    if (!cart || !event) {
-      Alert.alert('Error', 'Cart or event data is missing');
+    if (selected.length === 0) return;
+
+    // Check prices and availability against the server before creating any order
+    let reviews: CartReview[];
+    try {
+      reviews = await reconcileMutation.mutateAsync(selected);
+    } catch (err) {
+      Alert.alert('Error', getErrorMessage(err, 'Could not check ticket availability'));
       return;
     }
 
+    if (reviews.some((r) => r.changes.length > 0)) {
+      setReview(reviews);
+      return;
+    }
+    await placeOrders(selected);
+  };
+
+  // Save the reconciled carts, then check out whatever is left
+  const handleConfirmReview = async () => {
+    if (!review) return;
+
+    setIsApplyingReview(true);
+    try {
+      const updated: Cart[] = [];
+      for (const r of review) {
+        if (r.changes.length === 0) {
+          updated.push(r.cart);
+        } else if (r.items.length === 0) {
+          await clearCartMutation.mutateAsync({ eventId: r.cart.event_id });
+        } else {
+          updated.push(
+            await updateCartMutation.mutateAsync({
+              cartData: { event_id: r.cart.event_id, items: r.items },
+            })
+          );
+        }
+      }
+      setReview(null);
+      if (updated.length > 0) {
+        await placeOrders(updated);
+      }
+    } catch {
+      // The cart hooks already rolled back and showed a toast; leave the dialog open to retry
+    } finally {
+      setIsApplyingReview(false);
+    }
+  };
+
+  const placeOrders = async (selected: Cart[]) => {
     try {
-      const orderItems: OrderItem[] = cart.items.map((item) => ({
-        ticket_type: item.ticket_type,
-        quantity: item.quantity,
-        price: item.price,
-        subtotal: item.price * item.quantity,
-      }));
-
-      const order = await createOrderMutation.mutateAsync({
-        event_id: cart.event_id,
-        items: orderItems,
-        use_mobile_payment: true,
-      });
-
-      // Clear cart after successful order creation
-      await clearCartMutation.mutateAsync({ eventId: cart.event_id });
+      const promoCodes = Object.fromEntries(
+        Object.entries(promo.discounts).map(([eventId, discount]) => [eventId, discount.code])
+      );
+      const orders = await checkoutMutation.mutateAsync({ carts: selected, promoCodes });
+
+      if (orders.length > 1) {
+        // Each order is paid separately; My Tickets lists them with their hold countdowns
+        Alert.alert(
+          'Orders Created',
+          `Created ${orders.length} orders. Pay for each one from My Tickets before its hold expires.`,
+          [{ text: 'OK', onPress: () => router.replace('/(tabs)/tickets') }]
+        );
+        return;
+      }
+
+      const [order] = orders;
+      if (Platform.OS === 'web' && order.checkout_url) {
+        // Hand off to Stripe Checkout; /checkout/success or /checkout/cancel brings the user back
+        await redirectToCheckout(order);
+        return;
+      }
 
       // Navigate to payment screen
       router.push(`/payment/${order.order_id}`);
     } catch (err) {
-      Alert.alert('Error', err instanceof Error ? err.message : 'Failed to create order');
+      const cause = err instanceof CartCheckoutError ? err.cause : err;
+      const eventId = err instanceof CartCheckoutError ? err.eventId : selected[0].event_id;
+      // A failed multi-event checkout cancels the orders it created; say so only if that worked
+      const unreleased = err instanceof CartCheckoutError ? err.unreleasedOrderIds.length : 0;
+      let rolledBack = '';
+      if (unreleased > 0) {
+        rolledBack = `\n\n${unreleased} order${unreleased > 1 ? 's' : ''} from this checkout could not be cancelled. Cancel them from My Tickets to release the tickets.`;
+      } else if (selected.length > 1) {
+        rolledBack = '\n\nNo orders were placed.';
+      }
+
+      if (cause instanceof ConflictError && cause.isSoldOut) {
+        // Availability changed since the event was loaded; refresh it so the selector shows real counts
+        queryClient.invalidateQueries({ queryKey: ['event', eventId] });
+        Alert.alert('Tickets Sold Out', `${cause.message}${rolledBack}\n\nPlease update your selection.`, [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Update Tickets', onPress: () => router.push(`/event/${eventId}`) },
+        ]);
+        return;
+      }
+      Alert.alert('Error', `${getErrorMessage(cause, 'Failed to create order')}${rolledBack}`);
     }
   };
 
-  const handleClearCart = async () => {
-    if (!cart) return;
-
-    Alert.alert('Clear Cart', 'Are you sure you want to remove all items from your cart?', [
+  const handleClearCart = (cart: Cart) => {
+    Alert.alert('Remove Tickets', 'Are you sure you want to remove these tickets from your cart?', [
       { text: 'Cancel', style: 'cancel' },
       {
-        text: 'Clear',
+        text: 'Remove',
         style: 'destructive',
-        onPress: async () => {
-          try {
-            await clearCartMutation.mutateAsync({ eventId: cart.event_id });
-            router.back();
-          } catch (err) {
-            Alert.alert('Error', 'Failed to clear cart');
-          }
-        },
+        // Failures roll back and show a toast from useClearCart
+        onPress: () => clearCartMutation.mutate({ eventId: cart.event_id }),
       },
     ]);
   };
 
-  const getTotalPrice = () => {
-    if (!cart) return 0;
-    return cart.items.reduce((sum, item) => sum + item.price * item.quantity, 0);
-  };
-
-  const getTotalQuantity = () => {
-    if (!cart) return 0;
-    return cart.items.reduce((sum, item) => sum + item.quantity, 0);
-  };
-
-  if (isLoadingCart || isLoadingEvent) {
+  if (isLoading) {
     return (
       <View style={styles.centerContainer}>
         <ActivityIndicator size="large" />
@@ -111,7 +190,7 @@ export default function CartScreen() {
     );
   }
 
-  if (!cart || cart.items.length === 0) {
+  if (carts.length === 0) {
     return (
       <View style={styles.centerContainer}>
         <ThemedText type="title" style={styles.emptyTitle}>
@@ -125,74 +204,83 @@ export default function CartScreen() {
     );
   }
 
-  if (!event) {
-    return (
-      <View style={styles.centerContainer}>
-        <ThemedText style={styles.errorText}>Event not found</ThemedText>
-        <Pressable style={styles.backButton} onPress={() => router.back()}>
-          <ThemedText style={styles.backButtonText}>Go Back</ThemedText>
-        </Pressable>
-      </View>
-    );
-  }
+  const subtotal = carts.reduce((sum, cart) => sum + getCartSubtotal(cart), 0);
+  const discountTotal = Object.values(promo.discounts).reduce(
+    (sum, discount) => sum + discount.discount_amount,
+    0
+  );
+  const grandTotal = Math.max(subtotal - discountTotal, 0);
+  const isCheckoutDisabled = isCheckingOut || promo.isValidating || !user;
+  const totalQuantity = carts.reduce((sum, cart) => sum + getCartQuantity(cart), 0);
+  const isMultiEvent = carts.length > 1;
 
   return (
     <ScrollView style={styles.container} showsVerticalScrollIndicator={false}>
       <ThemedView style={styles.header}>
         <ThemedText type="title">Cart</ThemedText>
-        <ThemedText style={styles.subtitle}>{event.title}</ThemedText>
+        <ThemedText style={styles.subtitle}>
+          {carts.length} {carts.length === 1 ? 'event' : 'events'}
+        </ThemedText>
       </ThemedView>
 
       <ThemedView style={styles.content}>
-        {cart.items.map((item, index) => {
-          const ticketType = event.ticket_types.find((tt) => tt.name === item.ticket_type);
-          return (
-            <View key={index} style={styles.cartItem}>
-              <View style={styles.cartItemContent}>
-                <ThemedText type="defaultSemiBold" style={styles.itemName}>
-                  {item.ticket_type}
-                </ThemedText>
-                <ThemedText style={styles.itemDetails}>
-                  {item.quantity} × ${item.price.toFixed(2)}
-                </ThemedText>
-                {ticketType && (
-                  <ThemedText style={styles.itemAvailable}>
-                    {ticketType.available} available
-                  </ThemedText>
-                )}
-              </View>
-              <View style={styles.cartItemPrice}>
-                <ThemedText type="defaultSemiBold" style={styles.itemSubtotal}>
-                  ${(item.price * item.quantity).toFixed(2)}
-                </ThemedText>
-              </View>
-            </View>
-          );
-        })}
+        {carts.map((cart) => (
+          <CartEventSection
+            key={cart.event_id}
+            cart={cart}
+            discount={promo.discounts[cart.event_id]}
+            showCheckout={isMultiEvent && !!user}
+            isCheckingOut={pendingEventIds.length === 1 && pendingEventIds[0] === cart.event_id}
+            disabled={isCheckingOut || clearCartMutation.isPending || promo.isValidating}
+            onCheckout={() => handleCheckout([cart])}
+            onClear={() => handleClearCart(cart)}
+          />
+        ))}
+
+        <PromoCodeInput
+          appliedCode={promoCode}
+          isValidating={promo.isValidating}
+          error={promo.error}
+          onApply={setPromoCode}
+          onRemove={() => setPromoCode(null)}
+        />
 
         <ThemedView style={styles.summaryContainer}>
           <View style={styles.summaryRow}>
             <ThemedText style={styles.summaryLabel}>Total Tickets:</ThemedText>
             <ThemedText type="defaultSemiBold" style={styles.summaryValue}>
-              {getTotalQuantity()}
+              {totalQuantity}
             </ThemedText>
           </View>
           <View style={styles.summaryRow}>
             <ThemedText style={styles.summaryLabel}>Subtotal:</ThemedText>
             <ThemedText type="defaultSemiBold" style={styles.summaryValue}>
-              ${getTotalPrice().toFixed(2)}
+              ${subtotal.toFixed(2)}
+            </ThemedText>
+          </View>
+          {discountTotal > 0 && (
+            <View style={styles.summaryRow}>
+              <ThemedText style={styles.summaryLabel}>Discount ({promoCode}):</ThemedText>
+              <ThemedText type="defaultSemiBold" style={styles.discountValue}>
+                -${discountTotal.toFixed(2)}
+              </ThemedText>
+            </View>
+          )}
+          <View style={styles.summaryRow}>
+            <ThemedText style={styles.summaryLabel}>
+              {isMultiEvent ? 'Grand Total:' : 'Total:'}
+            </ThemedText>
+            <ThemedText type="defaultSemiBold" style={styles.summaryValue}>
+              ${grandTotal.toFixed(2)}
             </ThemedText>
           </View>
         </ThemedView>
 
         <Pressable
-          style={[
-            styles.checkoutButton,
-            (createOrderMutation.isPending || !user) && styles.buttonDisabled,
-          ]}
-          onPress={handleCheckout}
-          disabled={createOrderMutation.isPending || !user}>
-          {createOrderMutation.isPending ? (
+          style={[styles.checkoutButton, isCheckoutDisabled && styles.buttonDisabled]}
+          onPress={() => handleCheckout(carts)}
+          disabled={isCheckoutDisabled}>
+          {pendingEventIds.length === carts.length ? (
             <View style={styles.buttonContent}>
               <ActivityIndicator size="small" color="#fff" style={{ marginRight: 8 }} />
               <ThemedText type="defaultSemiBold" style={styles.checkoutButtonText}>
@@ -201,22 +289,132 @@ export default function CartScreen() {
             </View>
           ) : (
             <ThemedText type="defaultSemiBold" style={styles.checkoutButtonText}>
-              {user ? 'Proceed to Checkout' : 'Sign In to Checkout'}
+              {!user
+                ? 'Sign In to Checkout'
+                : isMultiEvent
+                  ? `Checkout All (${carts.length} events)`
+                  : 'Proceed to Checkout'}
             </ThemedText>
           )}
         </Pressable>
-
-        <Pressable
-          style={styles.clearButton}
-          onPress={handleClearCart}
-          disabled={clearCartMutation.isPending}>
-          <ThemedText style={styles.clearButtonText}>Clear Cart</ThemedText>
-        </Pressable>
       </ThemedView>
+
+      <CheckoutReviewDialog
+        reviews={review}
+        isApplying={isApplyingReview}
+        onConfirm={handleConfirmReview}
+        onCancel={() => setReview(null)}
+      />
     </ScrollView>
   );
 }
 
+type CartEventSectionProps = {
+  cart: Cart;
+  discount?: PromoValidation;
+  showCheckout: boolean;
+  isCheckingOut: boolean;
+  disabled: boolean;
+  onCheckout: () => void;
+  onClear: () => void;
+};
+
+function CartEventSection({
+  cart,
+  discount,
+  showCheckout,
+  isCheckingOut,
+  disabled,
+  onCheckout,
+  onClear,
+}: CartEventSectionProps) {
+  const { data: event } = useEvent(cart.event_id);
+  const extendCartMutation = useExtendCart();
+  const cartExpiry = useCartExpiry(cart);
+
+  const handleExtendReservation = async () => {
+    try {
+      await extendCartMutation.mutateAsync(cart.event_id);
+    } catch (err) {
+      Alert.alert('Error', getErrorMessage(err, 'Failed to extend reservation'));
+    }
+  };
+
+  return (
+    <ThemedView style={styles.eventSection}>
+      <ThemedText type="subtitle" style={styles.eventTitle} numberOfLines={2}>
+        {event?.title || 'Event'}
+      </ThemedText>
+
+      <CartExpiryBanner
+        remainingMs={cartExpiry.remainingMs}
+        isExpiringSoon={cartExpiry.isExpiringSoon}
+        canExtend={cart.can_extend}
+        isExtending={extendCartMutation.isPending}
+        onExtend={handleExtendReservation}
+      />
+
+      {cart.items.map((item, index) => {
+        const ticketType = event?.ticket_types.find((tt) => tt.name === item.ticket_type);
+        return (
+          <View key={index} style={styles.cartItem}>
+            <View style={styles.cartItemContent}>
+              <ThemedText type="defaultSemiBold" style={styles.itemName}>
+                {item.ticket_type}
+              </ThemedText>
+              <ThemedText style={styles.itemDetails}>
+                {item.quantity} × ${item.price.toFixed(2)}
+              </ThemedText>
+              {ticketType && (
+                <ThemedText style={styles.itemAvailable}>{ticketType.available} available</ThemedText>
+              )}
+            </View>
+            <View style={styles.cartItemPrice}>
+              <ThemedText type="defaultSemiBold" style={styles.itemSubtotal}>
+                ${(item.price * item.quantity).toFixed(2)}
+              </ThemedText>
+            </View>
+          </View>
+        );
+      })}
+
+      {discount && (
+        <View style={styles.summaryRow}>
+          <ThemedText style={styles.summaryLabel}>Promo {discount.code}:</ThemedText>
+          <ThemedText type="defaultSemiBold" style={styles.discountValue}>
+            -${discount.discount_amount.toFixed(2)}
+          </ThemedText>
+        </View>
+      )}
+
+      <View style={styles.summaryRow}>
+        <ThemedText style={styles.summaryLabel}>Event Subtotal:</ThemedText>
+        <ThemedText type="defaultSemiBold" style={styles.summaryValue}>
+          ${Math.max(getCartSubtotal(cart) - (discount?.discount_amount ?? 0), 0).toFixed(2)}
+        </ThemedText>
+      </View>
+
+      <View style={styles.eventActions}>
+        <Pressable style={styles.clearButton} onPress={onClear} disabled={disabled}>
+          <ThemedText style={styles.clearButtonText}>Remove</ThemedText>
+        </Pressable>
+        {showCheckout && (
+          <Pressable
+            style={[styles.eventCheckoutButton, disabled && styles.buttonDisabled]}
+            onPress={onCheckout}
+            disabled={disabled}>
+            {isCheckingOut ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <ThemedText style={styles.eventCheckoutButtonText}>Checkout This Event</ThemedText>
+            )}
+          </Pressable>
+        )}
+      </View>
+    </ThemedView>
+  );
+}
+
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -241,6 +439,32 @@ const styles = StyleSheet.create({
     padding: 20,
     gap: 16,
   },
+  eventSection: {
+    gap: 12,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(0, 0, 0, 0.1)',
+  },
+  eventTitle: {
+    fontSize: 20,
+  },
+  eventActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  eventCheckoutButton: {
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    minWidth: 160,
+    alignItems: 'center',
+  },
+  eventCheckoutButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
   cartItem: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -290,6 +514,10 @@ const styles = StyleSheet.create({
     fontSize: 18,
     color: '#007AFF',
   },
+  discountValue: {
+    fontSize: 18,
+    color: '#4CAF50',
+  },
   checkoutButton: {
     backgroundColor: '#000',
     paddingVertical: 16,
@@ -323,11 +551,6 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#666',
   },
-  errorText: {
-    fontSize: 16,
-    color: '#f44336',
-    textAlign: 'center',
-  },
   emptyTitle: {
     fontSize: 24,
     marginBottom: 8,
@@ -348,16 +571,5 @@ const styles = StyleSheet.create({
     color: '#fff',
     fontWeight: '600',
   },
-  backButton: {
-    marginTop: 12,
-    paddingHorizontal: 24,
-    paddingVertical: 12,
-    backgroundColor: '#007AFF',
-    borderRadius: 8,
-  },
-  backButtonText: {
-    color: '#fff',
-    fontWeight: '600',
-  },
 });
 
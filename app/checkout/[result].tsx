@@ -0,0 +1,96 @@
+import { useQueryClient } from '@tanstack/react-query';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React from 'react';
+import { ActivityIndicator, Pressable, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { takePendingCheckout } from '@/lib/payments/web-checkout';
+
+// Landing page for Stripe Checkout's success_url / cancel_url on web
+export default function CheckoutReturnScreen() {
+  const { result, session_id: sessionId } = useLocalSearchParams<{
+    result: string;
+    session_id?: string;
+  }>();
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [isMissing, setIsMissing] = React.useState(false);
+
+  React.useEffect(() => {
+    const reconcile = async () => {
+      const pending = await takePendingCheckout();
+
+      // Ignore stale entries left by an earlier checkout attempt
+      if (!pending || (sessionId && pending.session_id && pending.session_id !== sessionId)) {
+        setIsMissing(true);
+        return;
+      }
+
+      // The order changed server-side while we were away
+      queryClient.invalidateQueries({ queryKey: ['orders'] });
+      queryClient.invalidateQueries({ queryKey: ['order', pending.order_id] });
+
+      router.replace({
+        pathname: '/payment/[orderId]',
+        params: {
+          orderId: pending.order_id,
+          checkout: result === 'success' ? 'success' : 'cancel',
+        },
+      });
+    };
+
+    reconcile();
+  }, [result, sessionId, queryClient, router]);
+
+  if (isMissing) {
+    return (
+      <View style={styles.centerContainer}>
+        <ThemedText style={styles.errorText}>We couldn&apos;t find this checkout</ThemedText>
+        <ThemedText style={styles.subtext}>
+          Check My Tickets to see the current status of your order.
+        </ThemedText>
+        <Pressable style={styles.button} onPress={() => router.replace('/(tabs)/tickets')}>
+          <ThemedText style={styles.buttonText}>My Tickets</ThemedText>
+        </Pressable>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.centerContainer}>
+      <ActivityIndicator size="large" />
+      <ThemedText style={styles.subtext}>Returning from checkout...</ThemedText>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+    gap: 16,
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#f44336',
+    textAlign: 'center',
+  },
+  subtext: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+  },
+  button: {
+    marginTop: 12,
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+  },
+  buttonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
@@ -1,6 +1,6 @@
 import { Image } from 'expo-image';
 import { useLocalSearchParams, useRouter } from 'expo-router';
-import React, { useState } from 'react';
+import React from 'react';
 import {
   ActivityIndicator,
   Alert,
@@ -11,49 +11,35 @@ import {
   View,
 } from 'react-native';
 
+import { CartButton } from '@/components/cart-button';
+import { CartExpiryBanner } from '@/components/cart-expiry-banner';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
-import { useEvent } from '@/hooks/use-events';
-import { useCart, useUpdateCart } from '@/hooks/use-cart';
+import { VenueEventsList } from '@/components/venue-events-list';
+import { VenueLocation } from '@/components/venue-location';
+import { useEvent, useUnlockTicketTypes } from '@/hooks/use-events';
+import { useCartExpiry, useCartSelection, useExtendCart } from '@/hooks/use-cart';
+import { useVenue } from '@/hooks/use-venues';
+import { formatEventDate, getLocalTimeHint } from '@/lib/dates';
+import { canAddTicket, describeTicketRules, validateSelection } from '@/lib/ticket-rules';
 import { TicketType } from '@/types/events';
-import { CartItem } from '@/types/cart';
 
 export default function EventDetailsScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const router = useRouter();
   const { data: event, isLoading, error } = useEvent(id!);
-  const { data: cart } = useCart(id!);
-  const updateCartMutation = useUpdateCart();
-
-  const [selectedTickets, setSelectedTickets] = useState<Record<string, number>>({});
-
-  // Initialize selected tickets from cart if exists
-  React.useEffect(() => {
-    if (cart && cart.items.length > 0) {
-      const initial: Record<string, number> = {};
-      cart.items.forEach((item) => {
-        initial[item.ticket_type] = item.quantity;
-      });
-      setSelectedTickets(initial);
-    }
-  }, [cart]);
-
-  const updateTicketQuantity = (ticketType: string, delta: number) => {
-    const ticketTypeData = event?.ticket_types.find((tt) => tt.name === ticketType);
-    if (!ticketTypeData) return;
-
-    const current = selectedTickets[ticketType] || 0;
-    const newQuantity = Math.max(0, Math.min(current + delta, ticketTypeData.available));
-
-    setSelectedTickets((prev) => {
-      if (newQuantity === 0) {
-        const updated = { ...prev };
-        delete updated[ticketType];
-        return updated;
-      }
-      return { ...prev, [ticketType]: newQuantity };
-    });
-  };
+  const { data: venue } = useVenue(event?.venue_id);
+  const {
+    cart,
+    selection: selectedTickets,
+    changeQuantity: updateTicketQuantity,
+    isSaving,
+    flush,
+  } = useCartSelection(id!, event);
+  const extendCartMutation = useExtendCart();
+  const unlockMutation = useUnlockTicketTypes(id!);
+  const [unlockCode, setUnlockCode] = React.useState('');
+  const cartExpiry = useCartExpiry(cart);
 
   const getTotalPrice = () => {
     return Object.entries(selectedTickets).reduce((total, [ticketType, quantity]) => {
@@ -66,57 +52,31 @@ export default function EventDetailsScreen() {
     return Object.values(selectedTickets).reduce((sum, qty) => sum + qty, 0);
   };
 
-  const handleAddToCart = async () => {
-    if (getTotalQuantity() === 0) {
-      Alert.alert('Error', 'Please select at least one ticket');
-      return;
-    }
-
+  const handleExtendReservation = async () => {
     try {
-      const items: CartItem[] = Object.entries(selectedTickets).map(([ticketType, quantity]) => {
-        const ticketTypeData = event!.ticket_types.find((tt) => tt.name === ticketType)!;
-        return {
-          ticket_type: ticketType,
-          quantity,
-          price: ticketTypeData.price,
-        };
-      });
-
-      await updateCartMutation.mutateAsync({
-        cartData: {
-          event_id: id!,
-          items,
-        },
-      });
-
-      Alert.alert('Success', 'Tickets added to cart!', [
-        {
-          text: 'View Cart',
-          onPress: () => router.push('/cart'),
-        },
-        { text: 'Continue Shopping', style: 'cancel' },
-      ]);
+      await extendCartMutation.mutateAsync(id!);
     } catch (err) {
-      Alert.alert('Error', err instanceof Error ? err.message : 'Failed to add to cart');
+      Alert.alert('Error', err instanceof Error ? err.message : 'Failed to extend reservation');
     }
   };
 
-  const formatDate = (dateString: string) => {
+  const handleUnlock = async () => {
+    const code = unlockCode.trim();
+    if (!code) return;
     try {
-      const date = new Date(dateString);
-      return date.toLocaleDateString('en-US', {
-        weekday: 'long',
-        month: 'long',
-        day: 'numeric',
-        year: 'numeric',
-        hour: 'numeric',
-        minute: '2-digit',
-      });
+      await unlockMutation.mutateAsync(code);
+      setUnlockCode('');
     } catch {
-      return dateString;
+      // Shown under the input from unlockMutation.error
     }
   };
 
+  // Nothing is lost if the debounce hasn't fired yet: flush before leaving for the cart
+  const handleViewCart = () => {
+    flush();
+    router.push('/cart');
+  };
+
   if (isLoading) {
     return (
       <View style={styles.centerContainer}>
@@ -137,130 +97,216 @@ export default function EventDetailsScreen() {
     );
   }
 
+  const violations = validateSelection(event, selectedTickets);
+  const localTimeHint = getLocalTimeHint(event);
+
   return (
-    <ScrollView style={styles.container} showsVerticalScrollIndicator={false}>
-      {event.image_url ? (
-        <Image source={{ uri: event.image_url }} style={styles.headerImage} contentFit="cover" />
-      ) : (
-        <View style={[styles.headerImage, styles.placeholderImage]}>
-          <ThemedText style={styles.placeholderText}>No Image</ThemedText>
-        </View>
-      )}
+    <View style={styles.container}>
+      <ScrollView style={styles.container} showsVerticalScrollIndicator={false}>
+        {event.image_url ? (
+          <Image source={{ uri: event.image_url }} style={styles.headerImage} contentFit="cover" />
+        ) : (
+          <View style={[styles.headerImage, styles.placeholderImage]}>
+            <ThemedText style={styles.placeholderText}>No Image</ThemedText>
+          </View>
+        )}
 
-      <ThemedView style={styles.content}>
-        <ThemedText type="title" style={styles.title}>
-          {event.title}
-        </ThemedText>
+        <ThemedView style={styles.content}>
+          <ThemedText type="title" style={styles.title}>
+            {event.title}
+          </ThemedText>
 
-        <View style={styles.infoRow}>
-          <ThemedText style={styles.infoLabel}>📍 Venue:</ThemedText>
-          <ThemedText style={styles.infoValue}>{event.venue}</ThemedText>
-        </View>
+          <View style={styles.infoRow}>
+            <ThemedText style={styles.infoLabel}>📍 Venue:</ThemedText>
+            {event.venue_id ? (
+              <Pressable style={styles.infoValue} onPress={() => router.push(`/venue/${event.venue_id}`)}>
+                <ThemedText style={styles.venueLink}>{event.venue}</ThemedText>
+              </Pressable>
+            ) : (
+              <ThemedText style={styles.infoValue}>{event.venue}</ThemedText>
+            )}
+          </View>
 
-        <View style={styles.infoRow}>
-          <ThemedText style={styles.infoLabel}>🗓️ Date:</ThemedText>
-          <ThemedText style={styles.infoValue}>{formatDate(event.event_date)}</ThemedText>
-        </View>
+          <View style={styles.infoRow}>
+            <ThemedText style={styles.infoLabel}>🗓️ Date:</ThemedText>
+            <View style={styles.infoValue}>
+              <ThemedText style={styles.infoValueText}>{formatEventDate(event)}</ThemedText>
+              {localTimeHint && <ThemedText style={styles.localTimeHint}>{localTimeHint}</ThemedText>}
+            </View>
+          </View>
 
-        <ThemedView style={styles.descriptionContainer}>
-          <ThemedText type="subtitle" style={styles.sectionTitle}>
-            Description
-          </ThemedText>
-          <ThemedText style={styles.description}>{event.description}</ThemedText>
-        </ThemedView>
+          <ThemedView style={styles.descriptionContainer}>
+            <ThemedText type="subtitle" style={styles.sectionTitle}>
+              Description
+            </ThemedText>
+            <ThemedText style={styles.description}>{event.description}</ThemedText>
+          </ThemedView>
 
-        <ThemedView style={styles.ticketsContainer}>
-          <ThemedText type="subtitle" style={styles.sectionTitle}>
-            Select Tickets
-          </ThemedText>
+          {venue && (
+            <View>
+              <ThemedText type="subtitle" style={styles.sectionTitle}>
+                Getting There
+              </ThemedText>
+              <VenueLocation venue={venue} onPressVenue={() => router.push(`/venue/${venue.venue_id}`)} />
+            </View>
+          )}
 
-          {event.ticket_types.map((ticketType) => (
-            <View key={ticketType.name} style={styles.ticketTypeCard}>
-              <View style={styles.ticketTypeHeader}>
-                <View>
-                  <ThemedText type="defaultSemiBold" style={styles.ticketTypeName}>
-                    {ticketType.name}
-                  </ThemedText>
-                  <ThemedText style={styles.ticketTypePrice}>
-                    ${ticketType.price.toFixed(2)} each
-                  </ThemedText>
-                  <ThemedText style={styles.ticketTypeAvailable}>
-                    {ticketType.available} available
-                  </ThemedText>
+          <ThemedView style={styles.ticketsContainer}>
+            <ThemedText type="subtitle" style={styles.sectionTitle}>
+              Select Tickets
+            </ThemedText>
+
+            {cart && (
+              <CartExpiryBanner
+                remainingMs={cartExpiry.remainingMs}
+                isExpiringSoon={cartExpiry.isExpiringSoon}
+                canExtend={cart.can_extend}
+                isExtending={extendCartMutation.isPending}
+                onExtend={handleExtendReservation}
+              />
+            )}
+
+            {event.ticket_types.map((ticketType) => (
+              <View key={ticketType.name} style={styles.ticketTypeCard}>
+                <View style={styles.ticketTypeHeader}>
+                  <View>
+                    <View style={styles.ticketTypeNameRow}>
+                      <ThemedText type="defaultSemiBold" style={styles.ticketTypeName}>
+                        {ticketType.name}
+                      </ThemedText>
+                      {ticketType.hidden && (
+                        <ThemedText style={styles.unlockedBadge}>Unlocked</ThemedText>
+                      )}
+                    </View>
+                    <ThemedText style={styles.ticketTypePrice}>
+                      ${ticketType.price.toFixed(2)} each
+                    </ThemedText>
+                    <ThemedText style={styles.ticketTypeAvailable}>
+                      {ticketType.available} available
+                    </ThemedText>
+                    {describeTicketRules(ticketType, event.timezone).map((rule) => (
+                      <ThemedText key={rule} style={styles.ticketTypeRule}>
+                        {rule}
+                      </ThemedText>
+                    ))}
+                  </View>
+                  <View style={styles.quantityControls}>
+                    <Pressable
+                      style={[
+                        styles.quantityButton,
+                        (selectedTickets[ticketType.name] || 0) === 0 && styles.quantityButtonDisabled,
+                      ]}
+                      onPress={() => updateTicketQuantity(ticketType.name, -1)}
+                      disabled={(selectedTickets[ticketType.name] || 0) === 0}>
+                      <ThemedText style={styles.quantityButtonText}>−</ThemedText>
+                    </Pressable>
+                    <ThemedText style={styles.quantityDisplay}>
+                      {selectedTickets[ticketType.name] || 0}
+                    </ThemedText>
+                    <Pressable
+                      style={[
+                        styles.quantityButton,
+                        !canAddTicket(ticketType, selectedTickets) && styles.quantityButtonDisabled,
+                      ]}
+                      onPress={() => updateTicketQuantity(ticketType.name, 1)}
+                      disabled={!canAddTicket(ticketType, selectedTickets)}>
+                      <ThemedText style={styles.quantityButtonText}>+</ThemedText>
+                    </Pressable>
+                  </View>
                 </View>
-                <View style={styles.quantityControls}>
-                  <Pressable
-                    style={[
-                      styles.quantityButton,
-                      (selectedTickets[ticketType.name] || 0) === 0 && styles.quantityButtonDisabled,
-                    ]}
-                    onPress={() => updateTicketQuantity(ticketType.name, -1)}
-                    disabled={(selectedTickets[ticketType.name] || 0) === 0}>
-                    <ThemedText style={styles.quantityButtonText}>−</ThemedText>
-                  </Pressable>
-                  <ThemedText style={styles.quantityDisplay}>
-                    {selectedTickets[ticketType.name] || 0}
+                {(selectedTickets[ticketType.name] || 0) > 0 && (
+                  <ThemedText style={styles.subtotal}>
+                    Subtotal: ${((selectedTickets[ticketType.name] || 0) * ticketType.price).toFixed(2)}
                   </ThemedText>
-                  <Pressable
-                    style={[
-                      styles.quantityButton,
-                      (selectedTickets[ticketType.name] || 0) >= ticketType.available &&
-                        styles.quantityButtonDisabled,
-                    ]}
-                    onPress={() => updateTicketQuantity(ticketType.name, 1)}
-                    disabled={(selectedTickets[ticketType.name] || 0) >= ticketType.available}>
-                    <ThemedText style={styles.quantityButtonText}>+</ThemedText>
-                  </Pressable>
-                </View>
+                )}
               </View>
-              {(selectedTickets[ticketType.name] || 0) > 0 && (
-                <ThemedText style={styles.subtotal}>
-                  Subtotal: ${((selectedTickets[ticketType.name] || 0) * ticketType.price).toFixed(2)}
-                </ThemedText>
-              )}
-            </View>
-          ))}
-        </ThemedView>
+            ))}
 
-        {getTotalQuantity() > 0 && (
-          <ThemedView style={styles.summaryContainer}>
-            <View style={styles.summaryRow}>
-              <ThemedText style={styles.summaryLabel}>Total Tickets:</ThemedText>
-              <ThemedText type="defaultSemiBold" style={styles.summaryValue}>
-                {getTotalQuantity()}
-              </ThemedText>
-            </View>
-            <View style={styles.summaryRow}>
-              <ThemedText style={styles.summaryLabel}>Total Price:</ThemedText>
-              <ThemedText type="defaultSemiBold" style={styles.summaryValue}>
-                ${getTotalPrice().toFixed(2)}
-              </ThemedText>
+            {violations.length > 0 && (
+              <View style={styles.violations}>
+                {violations.map((violation) => (
+                  <ThemedText key={violation.message} style={styles.violationText}>
+                    ⚠️ {violation.message}
+                  </ThemedText>
+                ))}
+              </View>
+            )}
+
+            <View style={styles.unlockContainer}>
+              <ThemedText style={styles.unlockLabel}>Have an unlock code?</ThemedText>
+              <View style={styles.unlockRow}>
+                <TextInput
+                  style={styles.unlockInput}
+                  placeholder="Unlock code"
+                  autoCapitalize="characters"
+                  autoCorrect={false}
+                  value={unlockCode}
+                  onChangeText={setUnlockCode}
+                  onSubmitEditing={handleUnlock}
+                  editable={!unlockMutation.isPending}
+                />
+                <Pressable
+                  style={[
+                    styles.unlockButton,
+                    (!unlockCode.trim() || unlockMutation.isPending) && styles.buttonDisabled,
+                  ]}
+                  onPress={handleUnlock}
+                  disabled={!unlockCode.trim() || unlockMutation.isPending}>
+                  {unlockMutation.isPending ? (
+                    <ActivityIndicator size="small" color="#fff" />
+                  ) : (
+                    <ThemedText style={styles.unlockButtonText}>Unlock</ThemedText>
+                  )}
+                </Pressable>
+              </View>
+              {unlockMutation.error && (
+                <ThemedText style={styles.unlockError}>{unlockMutation.error.message}</ThemedText>
+              )}
             </View>
           </ThemedView>
-        )}
 
-        <Pressable
-          style={[
-            styles.addToCartButton,
-            (getTotalQuantity() === 0 || updateCartMutation.isPending) && styles.buttonDisabled,
-          ]}
-          onPress={handleAddToCart}
-          disabled={getTotalQuantity() === 0 || updateCartMutation.isPending}>
-          {updateCartMutation.isPending ? (
-            <View style={styles.buttonContent}>
-              <ActivityIndicator size="small" color="#fff" style={{ marginRight: 8 }} />
-              <ThemedText type="defaultSemiBold" style={styles.addToCartButtonText}>
-                Adding...
+          {getTotalQuantity() > 0 && (
+            <ThemedView style={styles.summaryContainer}>
+              <View style={styles.summaryRow}>
+                <ThemedText style={styles.summaryLabel}>Total Tickets:</ThemedText>
+                <ThemedText type="defaultSemiBold" style={styles.summaryValue}>
+                  {getTotalQuantity()}
+                </ThemedText>
+              </View>
+              <View style={styles.summaryRow}>
+                <ThemedText style={styles.summaryLabel}>Total Price:</ThemedText>
+                <ThemedText type="defaultSemiBold" style={styles.summaryValue}>
+                  ${getTotalPrice().toFixed(2)}
+                </ThemedText>
+              </View>
+            </ThemedView>
+          )}
+
+          <Pressable
+            style={[styles.viewCartButton, getTotalQuantity() === 0 && styles.buttonDisabled]}
+            onPress={handleViewCart}
+            disabled={getTotalQuantity() === 0}>
+            {isSaving ? (
+              <View style={styles.buttonContent}>
+                <ActivityIndicator size="small" color="#fff" style={{ marginRight: 8 }} />
+                <ThemedText type="defaultSemiBold" style={styles.viewCartButtonText}>
+                  Saving...
+                </ThemedText>
+              </View>
+            ) : (
+              <ThemedText type="defaultSemiBold" style={styles.viewCartButtonText}>
+                {getTotalQuantity() > 0 ? 'View Cart' : 'Select Tickets'}
               </ThemedText>
-            </View>
-          ) : (
-            <ThemedText type="defaultSemiBold" style={styles.addToCartButtonText}>
-              {cart ? 'Update Cart' : 'Add to Cart'}
-            </ThemedText>
+            )}
+          </Pressable>
+
+          {!!event.venue_id && (
+            <VenueEventsList venueId={event.venue_id} excludeEventId={event.event_id} />
           )}
-        </Pressable>
-      </ThemedView>
-    </ScrollView>
+        </ThemedView>
+      </ScrollView>
+      <CartButton style={styles.cartButton} />
+    </View>
   );
 }
 
@@ -275,6 +321,13 @@ const styles = StyleSheet.create({
     padding: 20,
     gap: 16,
   },
+  cartButton: {
+    position: 'absolute',
+    top: 48,
+    right: 16,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.9)',
+  },
   headerImage: {
     width: '100%',
     height: 300,
@@ -311,6 +364,17 @@ const styles = StyleSheet.create({
     fontSize: 14,
     flex: 1,
   },
+  infoValueText: {
+    fontSize: 14,
+  },
+  localTimeHint: {
+    fontSize: 13,
+    color: '#666',
+  },
+  venueLink: {
+    fontSize: 14,
+    color: '#007AFF',
+  },
   descriptionContainer: {
     marginTop: 8,
     padding: 16,
@@ -340,10 +404,26 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     alignItems: 'flex-start',
   },
+  ticketTypeNameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
   ticketTypeName: {
     fontSize: 16,
     marginBottom: 4,
   },
+  unlockedBadge: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#fff',
+    backgroundColor: '#9C27B0',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+    overflow: 'hidden',
+    marginBottom: 4,
+  },
   ticketTypePrice: {
     fontSize: 14,
     color: '#007AFF',
@@ -353,6 +433,56 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#666',
   },
+  ticketTypeRule: {
+    fontSize: 12,
+    color: '#E65100',
+  },
+  violations: {
+    padding: 12,
+    backgroundColor: '#FFF3E0',
+    borderRadius: 8,
+    gap: 4,
+  },
+  violationText: {
+    fontSize: 13,
+    color: '#E65100',
+  },
+  unlockContainer: {
+    gap: 6,
+  },
+  unlockLabel: {
+    fontSize: 14,
+    color: '#666',
+  },
+  unlockRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  unlockInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  unlockButton: {
+    paddingHorizontal: 20,
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    justifyContent: 'center',
+    alignItems: 'center',
+    minWidth: 80,
+  },
+  unlockButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  unlockError: {
+    fontSize: 13,
+    color: '#f44336',
+  },
   quantityControls: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -405,7 +535,7 @@ const styles = StyleSheet.create({
     fontSize: 18,
     color: '#007AFF',
   },
-  addToCartButton: {
+  viewCartButton: {
     backgroundColor: '#000',
     paddingVertical: 16,
     borderRadius: 12,
@@ -421,7 +551,7 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'center',
   },
-  addToCartButtonText: {
+  viewCartButtonText: {
     color: '#fff',
     fontSize: 16,
   },
@@ -11,17 +11,23 @@ import {
 } from 'react-native';
 
 import { ThemedText } from '@/components/themed-text';
+import { OfflineBanner } from '@/components/offline-banner';
+import { OrderHoldBanner } from '@/components/order-hold-banner';
 import { ThemedView } from '@/components/themed-view';
-import { useOrder, useOrderQR, useCancelOrder } from '@/hooks/use-orders';
+import { useOrder, useOrderQR, useCancelOrder, useOrderHold } from '@/hooks/use-orders';
 import { useEvent } from '@/hooks/use-events';
+import { useTicketWallet } from '@/hooks/use-ticket-wallet';
+import { formatDate } from '@/lib/dates';
 
 export default function OrderDetailsScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const router = useRouter();
-  const { data: order, isLoading, error } = useOrder(id!);
+  const { data: order, isLoading, error, dataUpdatedAt } = useOrder(id!);
   const { data: event } = useEvent(order?.event_id || '');
   const { data: qrCode } = useOrderQR(order?.order_id || '');
+  const { data: wallet } = useTicketWallet();
   const cancelOrderMutation = useCancelOrder();
+  const hold = useOrderHold(order);
 
   const handleCancelOrder = async () => {
     if (!order) return;
@@ -43,22 +49,6 @@ export default function OrderDetailsScreen() {
     ]);
   };
 
-  const formatDate = (dateString: string) => {
-    try {
-      const date = new Date(dateString);
-      return date.toLocaleDateString('en-US', {
-        weekday: 'long',
-        month: 'long',
-        day: 'numeric',
-        year: 'numeric',
-        hour: 'numeric',
-        minute: '2-digit',
-      });
-    } catch {
-      return dateString;
-    }
-  };
-
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'paid':
@@ -103,6 +93,7 @@ export default function OrderDetailsScreen() {
       )}
 
       <ThemedView style={styles.content}>
+        <OfflineBanner updatedAt={dataUpdatedAt} />
         <View style={styles.header}>
           <ThemedText type="title" style={styles.title}>
             {event?.title || 'Order Details'}
@@ -120,6 +111,15 @@ export default function OrderDetailsScreen() {
           </View>
         </View>
 
+        {(order.status === 'pending' || hold.isExpired) && (
+          <OrderHoldBanner
+            eventId={order.event_id}
+            remainingMs={hold.remainingMs}
+            isChecking={hold.isChecking}
+            isExpired={hold.isExpired}
+          />
+        )}
+
         <ThemedView style={styles.section}>
           <ThemedText type="subtitle" style={styles.sectionTitle}>
             Order Information
@@ -130,12 +130,12 @@ export default function OrderDetailsScreen() {
           </View>
           <View style={styles.infoRow}>
             <ThemedText style={styles.infoLabel}>Date:</ThemedText>
-            <ThemedText style={styles.infoValue}>{formatDate(order.created_at)}</ThemedText>
+            <ThemedText style={styles.infoValue}>{formatDate(order.created_at, 'full')}</ThemedText>
           </View>
           {order.paid_at && (
             <View style={styles.infoRow}>
               <ThemedText style={styles.infoLabel}>Paid:</ThemedText>
-              <ThemedText style={styles.infoValue}>{formatDate(order.paid_at)}</ThemedText>
+              <ThemedText style={styles.infoValue}>{formatDate(order.paid_at, 'full')}</ThemedText>
             </View>
           )}
         </ThemedView>
@@ -174,9 +174,17 @@ export default function OrderDetailsScreen() {
           <View style={styles.summaryRow}>
             <ThemedText style={styles.summaryLabel}>Subtotal:</ThemedText>
             <ThemedText type="defaultSemiBold" style={styles.summaryValue}>
-              ${order.total_amount.toFixed(2)}
+              ${(order.total_amount + (order.discount_amount ?? 0)).toFixed(2)}
             </ThemedText>
           </View>
+          {order.promo_code && (
+            <View style={styles.summaryRow}>
+              <ThemedText style={styles.summaryLabel}>Promo ({order.promo_code}):</ThemedText>
+              <ThemedText style={[styles.summaryValue, styles.discountValue]}>
+                -${(order.discount_amount ?? 0).toFixed(2)}
+              </ThemedText>
+            </View>
+          )}
           <View style={styles.summaryRow}>
             <ThemedText style={styles.summaryLabel}>Fees:</ThemedText>
             <ThemedText style={styles.summaryValue}>${order.stripe_fees.toFixed(2)}</ThemedText>
@@ -210,9 +218,20 @@ export default function OrderDetailsScreen() {
             <ThemedText style={styles.qrHint}>
               Show this QR code at the event entrance
             </ThemedText>
+            {wallet?.[order.order_id] && (
+              <ThemedText style={styles.qrHint}>✓ Saved on this device for offline use</ThemedText>
+            )}
           </ThemedView>
         )}
 
+        {order.status === 'pending' && !hold.isExpired && (
+          <Pressable
+            style={styles.payButton}
+            onPress={() => router.push(`/payment/${order.order_id}`)}>
+            <ThemedText style={styles.payButtonText}>Pay Now</ThemedText>
+          </Pressable>
+        )}
+
         {order.status === 'pending' && (
           <Pressable
             style={styles.cancelButton}
@@ -335,6 +354,9 @@ const styles = StyleSheet.create({
   summaryValue: {
     fontSize: 14,
   },
+  discountValue: {
+    color: '#4CAF50',
+  },
   totalRow: {
     marginTop: 8,
     paddingTop: 12,
@@ -368,6 +390,18 @@ const styles = StyleSheet.create({
     color: '#666',
     textAlign: 'center',
   },
+  payButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  payButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
   cancelButton: {
     backgroundColor: '#ff3b30',
     paddingVertical: 14,
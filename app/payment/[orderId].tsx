@@ -2,46 +2,92 @@ import { useLocalSearchParams, useRouter } from 'expo-router';
 import React, { useEffect, useState } from 'react';
 import {
   ActivityIndicator,
-  Alert,
   Pressable,
   ScrollView,
   StyleSheet,
   View,
 } from 'react-native';
 
+import { OrderHoldBanner } from '@/components/order-hold-banner';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
-import { useOrder } from '@/hooks/use-orders';
+import { useAuth } from '@/context/auth';
+import { useOrder, useOrderConfirmation, useOrderHold } from '@/hooks/use-orders';
 import { useEvent } from '@/hooks/use-events';
+import { useSaveTicket } from '@/hooks/use-ticket-wallet';
+import { ordersApi } from '@/lib/api/endpoints';
+import { getErrorMessage } from '@/lib/api/errors';
+import { STRIPE_TEST_MODE } from '@/lib/payments/config';
+import { payForOrder } from '@/lib/payments/payment-sheet';
+
+type PaymentState = 'idle' | 'processing' | 'succeeded' | 'canceled' | 'failed';
 
 export default function PaymentScreen() {
-  const { orderId } = useLocalSearchParams<{ orderId: string }>();
+  const { orderId, checkout } = useLocalSearchParams<{
+    orderId: string;
+    checkout?: 'success' | 'cancel';
+  }>();
   const router = useRouter();
+  const { accessToken } = useAuth();
+  // Returning from Stripe Checkout (web) resumes in the matching state
+  const [paymentState, setPaymentState] = useState<PaymentState>(
+    checkout === 'success' ? 'succeeded' : checkout === 'cancel' ? 'canceled' : 'idle'
+  );
+  const [paymentError, setPaymentError] = useState<string | null>(null);
   const { data: order, isLoading, error } = useOrder(orderId!);
+  // After a successful payment the backend webhook still has to mark the order as paid
+  const confirmation = useOrderConfirmation(orderId!, paymentState === 'succeeded');
+  // Never treat the hold as expired once the customer has started paying
+  const hold = useOrderHold(
+    order,
+    paymentState !== 'processing' && paymentState !== 'succeeded' && checkout !== 'success'
+  );
   const { data: event } = useEvent(order?.event_id || '');
-  const [isProcessing, setIsProcessing] = useState(false);
+  const saveTicket = useSaveTicket();
+
+  // Store the entry QR as soon as the order is paid so it's available offline at the venue
+  useEffect(() => {
+    if (order?.status === 'paid') {
+      saveTicket(order.order_id).catch((err) => {
+        console.warn('[Payment] ⚠️ Failed to store ticket for offline use:', err);
+      });
+    }
+  }, [order?.status, order?.order_id, saveTicket]);
 
-  // For now, we'll show a message that payment integration is coming
-  // In production, you would integrate @stripe/stripe-react-native here
-  // and use the client_secret from the order to present the payment sheet
+  // Once the webhook has confirmed the payment, go straight to the tickets
+  useEffect(() => {
+    if (paymentState === 'succeeded' && order?.status === 'paid') {
+      router.replace(`/order/${order.order_id}`);
+    }
+  }, [paymentState, order?.status, order?.order_id, router]);
 
   const handlePayment = async () => {
-    if (!order?.client_secret) {
-      Alert.alert('Error', 'Payment information not available');
-      return;
-    }
+    if (!order) return;
 
-    Alert.alert(
-      'Payment Integration',
-      'Stripe payment integration requires @stripe/stripe-react-native package. For now, you can test the flow by checking the order status after webhook processing.',
-      [
-        {
-          text: 'View Order',
-          onPress: () => router.replace(`/order/${order.order_id}`),
-        },
-        { text: 'Cancel', style: 'cancel' },
-      ]
-    );
+    setPaymentState('processing');
+    setPaymentError(null);
+
+    try {
+      const result = await payForOrder(order);
+
+      if (result.status === 'succeeded') {
+        if (STRIPE_TEST_MODE) {
+          // The stub backend stands in for the Stripe webhook
+          await ordersApi.confirmTestPayment(order.order_id, accessToken);
+        }
+        setPaymentState('succeeded');
+      } else if (result.status === 'canceled') {
+        setPaymentState('canceled');
+      } else if (result.status === 'redirected') {
+        // The page is navigating to Stripe Checkout; keep showing progress until it unloads
+      } else {
+        setPaymentState('failed');
+        setPaymentError(result.message);
+      }
+    } catch (err) {
+      setPaymentState('failed');
+      setPaymentError(getErrorMessage(err, 'Payment failed'));
+    }
   };
 
   if (isLoading) {
@@ -80,6 +126,74 @@ export default function PaymentScreen() {
     );
   }
 
+  if (hold.isExpired) {
+    return (
+      <View style={styles.centerContainer}>
+        <OrderHoldBanner
+          eventId={order.event_id}
+          remainingMs={hold.remainingMs}
+          isChecking={hold.isChecking}
+          isExpired={hold.isExpired}
+        />
+      </View>
+    );
+  }
+
+  if (order.status === 'cancelled' || order.status === 'refunded') {
+    return (
+      <View style={styles.centerContainer}>
+        <ThemedText type="subtitle" style={styles.errorText}>
+          This order was {order.status}
+        </ThemedText>
+        <ThemedText style={styles.successText}>
+          {order.status === 'refunded'
+            ? 'Your payment has been refunded.'
+            : 'No payment was taken for this order.'}
+        </ThemedText>
+        <Pressable
+          style={styles.viewOrderButton}
+          onPress={() => router.replace(`/order/${order.order_id}`)}>
+          <ThemedText style={styles.viewOrderButtonText}>View Order</ThemedText>
+        </Pressable>
+      </View>
+    );
+  }
+
+  if (confirmation.phase === 'timed_out') {
+    return (
+      <View style={styles.centerContainer}>
+        <ThemedText type="subtitle">Still confirming your payment</ThemedText>
+        <ThemedText style={styles.successText}>
+          This is taking longer than usual. Your payment is safe and your tickets will appear in My
+          Tickets as soon as it&apos;s confirmed – we&apos;ll notify you.
+        </ThemedText>
+        <Pressable style={styles.viewOrderButton} onPress={() => router.replace('/(tabs)/tickets')}>
+          <ThemedText style={styles.viewOrderButtonText}>Go to My Tickets</ThemedText>
+        </Pressable>
+        <Pressable style={styles.cancelButton} onPress={confirmation.restart}>
+          <ThemedText style={styles.linkText}>Check again</ThemedText>
+        </Pressable>
+      </View>
+    );
+  }
+
+  if (paymentState === 'succeeded') {
+    return (
+      <View style={styles.centerContainer}>
+        <ActivityIndicator size="large" />
+        <ThemedText type="subtitle">Confirming payment...</ThemedText>
+        <ThemedText style={styles.successText}>
+          Your payment went through. We&apos;re waiting for final confirmation.
+        </ThemedText>
+        <View style={styles.progressTrack}>
+          <View style={[styles.progressFill, { width: `${confirmation.progress * 100}%` }]} />
+        </View>
+      </View>
+    );
+  }
+
+  const isProcessing = paymentState === 'processing';
+
   return (
     <ScrollView style={styles.container} showsVerticalScrollIndicator={false}>
       <ThemedView style={styles.content}>
@@ -87,6 +201,13 @@ export default function PaymentScreen() {
           Complete Payment
         </ThemedText>
 
+        <OrderHoldBanner
+          eventId={order.event_id}
+          remainingMs={hold.remainingMs}
+          isChecking={hold.isChecking}
+          isExpired={hold.isExpired}
+        />
+
         <ThemedView style={styles.orderSummary}>
           <ThemedText type="subtitle" style={styles.sectionTitle}>
             Order Summary
@@ -110,11 +231,24 @@ export default function PaymentScreen() {
             Payment Method
           </ThemedText>
           <ThemedText style={styles.infoText}>
-            Stripe payment integration is ready. Install @stripe/stripe-react-native to enable
-            payment processing.
+            {STRIPE_TEST_MODE
+              ? 'Stripe test mode: no real card is charged and the local backend confirms the order.'
+              : 'Pay securely by card through Stripe.'}
           </ThemedText>
         </ThemedView>
 
+        {paymentState === 'failed' && paymentError && (
+          <ThemedView style={styles.errorContainer}>
+            <ThemedText style={styles.errorText}>{paymentError}</ThemedText>
+          </ThemedView>
+        )}
+
+        {paymentState === 'canceled' && (
+          <ThemedText style={styles.canceledText}>
+            Payment cancelled. Your order is still reserved.
+          </ThemedText>
+        )}
+
         <Pressable
           style={[styles.payButton, isProcessing && styles.buttonDisabled]}
           onPress={handlePayment}
@@ -128,7 +262,7 @@ export default function PaymentScreen() {
             </View>
           ) : (
             <ThemedText type="defaultSemiBold" style={styles.payButtonText}>
-              Pay ${order.total_amount.toFixed(2)}
+              {paymentState === 'failed' ? 'Try Again' : `Pay $${order.total_amount.toFixed(2)}`}
             </ThemedText>
           )}
         </Pressable>
@@ -235,6 +369,33 @@ const styles = StyleSheet.create({
     color: '#f44336',
     textAlign: 'center',
   },
+  errorContainer: {
+    padding: 12,
+    backgroundColor: '#ffebee',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#f44336',
+  },
+  linkText: {
+    color: '#007AFF',
+    fontSize: 16,
+  },
+  progressTrack: {
+    width: '80%',
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: 'rgba(0, 0, 0, 0.1)',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#007AFF',
+  },
+  canceledText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+  },
   backButton: {
     marginTop: 12,
     paddingHorizontal: 24,
@@ -0,0 +1,132 @@
+import { Image } from 'expo-image';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { ActivityIndicator, Pressable, ScrollView, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { VenueEventsList } from '@/components/venue-events-list';
+import { VenueLocation } from '@/components/venue-location';
+import { useVenue } from '@/hooks/use-venues';
+
+export default function VenueScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { data: venue, isLoading, error } = useVenue(id);
+
+  if (isLoading) {
+    return (
+      <View style={styles.centerContainer}>
+        <ActivityIndicator size="large" />
+        <ThemedText style={styles.loadingText}>Loading venue...</ThemedText>
+      </View>
+    );
+  }
+
+  if (error || !venue) {
+    return (
+      <View style={styles.centerContainer}>
+        <ThemedText style={styles.errorText}>Failed to load venue</ThemedText>
+        <Pressable style={styles.backButton} onPress={() => router.back()}>
+          <ThemedText style={styles.backButtonText}>Go Back</ThemedText>
+        </Pressable>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} showsVerticalScrollIndicator={false}>
+      {venue.image_url && (
+        <Image source={{ uri: venue.image_url }} style={styles.headerImage} contentFit="cover" />
+      )}
+      <ThemedView style={styles.content}>
+        <ThemedText type="title" style={styles.title}>
+          {venue.name}
+        </ThemedText>
+
+        <VenueLocation venue={venue} />
+
+        {(!!venue.capacity || !!venue.accessibility_notes) && (
+          <ThemedView style={styles.infoContainer}>
+            {!!venue.capacity && (
+              <View style={styles.infoRow}>
+                <ThemedText style={styles.infoLabel}>👥 Capacity:</ThemedText>
+                <ThemedText style={styles.infoValue}>{venue.capacity.toLocaleString()}</ThemedText>
+              </View>
+            )}
+            {!!venue.accessibility_notes && (
+              <View style={styles.infoRow}>
+                <ThemedText style={styles.infoLabel}>♿ Access:</ThemedText>
+                <ThemedText style={styles.infoValue}>{venue.accessibility_notes}</ThemedText>
+              </View>
+            )}
+          </ThemedView>
+        )}
+
+        <VenueEventsList venueId={venue.venue_id} limit={20} title="Upcoming events" />
+      </ThemedView>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+    gap: 16,
+  },
+  headerImage: {
+    width: '100%',
+    height: 220,
+    backgroundColor: '#f0f0f0',
+  },
+  content: {
+    padding: 20,
+    gap: 16,
+  },
+  title: {
+    fontSize: 28,
+  },
+  infoContainer: {
+    padding: 16,
+    backgroundColor: 'rgba(0, 0, 0, 0.05)',
+    borderRadius: 12,
+    gap: 8,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  infoLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    minWidth: 90,
+  },
+  infoValue: {
+    fontSize: 14,
+    flex: 1,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#f44336',
+    textAlign: 'center',
+  },
+  backButton: {
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+  },
+  backButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,63 @@
+import { useState } from 'react';
+import { Pressable, StyleSheet, View, type StyleProp, type ViewStyle } from 'react-native';
+
+import { MiniCartSheet } from '@/components/mini-cart-sheet';
+import { ThemedText } from '@/components/themed-text';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useCartItemCount } from '@/hooks/use-cart';
+
+type CartButtonProps = {
+  color?: string;
+  style?: StyleProp<ViewStyle>;
+};
+
+/**
+ * Cart icon with a live ticket count. Opens the mini-cart sheet.
+ */
+export function CartButton({ color = '#007AFF', style }: CartButtonProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const count = useCartItemCount();
+
+  return (
+    <>
+      <Pressable
+        style={[styles.button, style]}
+        onPress={() => setIsOpen(true)}
+        hitSlop={8}
+        accessibilityRole="button"
+        accessibilityLabel={count > 0 ? `Cart, ${count} tickets` : 'Cart'}>
+        <IconSymbol name="cart.fill" size={26} color={color} />
+        {count > 0 && (
+          <View style={styles.badge}>
+            <ThemedText style={styles.badgeText}>{count > 99 ? '99+' : count}</ThemedText>
+          </View>
+        )}
+      </Pressable>
+      <MiniCartSheet visible={isOpen} onClose={() => setIsOpen(false)} />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  button: {
+    padding: 6,
+  },
+  badge: {
+    position: 'absolute',
+    top: 0,
+    right: 0,
+    minWidth: 18,
+    height: 18,
+    paddingHorizontal: 4,
+    borderRadius: 9,
+    backgroundColor: '#f44336',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  badgeText: {
+    color: '#fff',
+    fontSize: 11,
+    lineHeight: 14,
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,82 @@
+import { ActivityIndicator, Pressable, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { formatCountdown } from '@/hooks/use-countdown';
+
+type CartExpiryBannerProps = {
+  remainingMs: number | null;
+  isExpiringSoon: boolean;
+  canExtend?: boolean;
+  isExtending?: boolean;
+  onExtend?: () => void;
+};
+
+/**
+ * Live countdown for a cart reservation, with a warning and an optional "extend" action
+ * shortly before it lapses. Pair with `useCartExpiry`.
+ */
+export function CartExpiryBanner({
+  remainingMs,
+  isExpiringSoon,
+  canExtend,
+  isExtending,
+  onExtend,
+}: CartExpiryBannerProps) {
+  if (remainingMs === null || remainingMs === 0) return null;
+
+  return (
+    <View style={[styles.banner, isExpiringSoon ? styles.warning : styles.info]}>
+      <ThemedText style={[styles.text, isExpiringSoon && styles.warningText]}>
+        {isExpiringSoon ? 'Hurry! Your tickets are released in ' : 'Tickets reserved for '}
+        <ThemedText
+          type="defaultSemiBold"
+          style={[styles.text, isExpiringSoon && styles.warningText]}>
+          {formatCountdown(remainingMs)}
+        </ThemedText>
+      </ThemedText>
+      {isExpiringSoon && canExtend && onExtend && (
+        <Pressable style={styles.button} onPress={onExtend} disabled={isExtending}>
+          {isExtending ? (
+            <ActivityIndicator size="small" color="#fff" />
+          ) : (
+            <ThemedText style={styles.buttonText}>Extend Reservation</ThemedText>
+          )}
+        </Pressable>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    padding: 12,
+    borderRadius: 8,
+    gap: 8,
+    alignItems: 'center',
+  },
+  info: {
+    backgroundColor: 'rgba(0, 122, 255, 0.1)',
+  },
+  warning: {
+    backgroundColor: '#FFF3E0',
+  },
+  text: {
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  warningText: {
+    color: '#E65100',
+  },
+  button: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: '#E65100',
+    borderRadius: 8,
+    minWidth: 160,
+    alignItems: 'center',
+  },
+  buttonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
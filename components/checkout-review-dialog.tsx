@@ -0,0 +1,148 @@
+import { ActivityIndicator, Modal, Pressable, ScrollView, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { CartReview, describeCartChange } from '@/lib/cart-reconciliation';
+
+type CheckoutReviewDialogProps = {
+  reviews: CartReview[] | null;
+  isApplying: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+};
+
+/**
+ * Lists what changed since tickets were added (prices, remaining counts) and asks the user to
+ * accept the updated cart before any order is created.
+ */
+export function CheckoutReviewDialog({ reviews, isApplying, onConfirm, onCancel }: CheckoutReviewDialogProps) {
+  const changed = (reviews ?? []).filter((review) => review.changes.length > 0);
+  const total = (reviews ?? []).reduce(
+    (sum, review) => sum + review.items.reduce((s, item) => s + item.price * item.quantity, 0),
+    0
+  );
+
+  return (
+    <Modal visible={!!reviews} transparent animationType="fade" onRequestClose={onCancel}>
+      <View style={styles.backdrop}>
+        <ThemedView style={styles.dialog}>
+          <ThemedText type="subtitle">Your cart has changed</ThemedText>
+          <ThemedText style={styles.subtitle}>
+            Prices or availability were updated since you added these tickets.
+          </ThemedText>
+
+          <ScrollView style={styles.changes} contentContainerStyle={styles.changesContent}>
+            {changed.map((review) => (
+              <View key={review.cart.event_id} style={styles.eventChanges}>
+                <ThemedText type="defaultSemiBold">{review.event.title}</ThemedText>
+                {review.changes.map((change) => (
+                  <ThemedText key={`${change.kind}-${change.ticketType}`} style={styles.changeText}>
+                    • {describeCartChange(change)}
+                  </ThemedText>
+                ))}
+              </View>
+            ))}
+          </ScrollView>
+
+          <View style={styles.totalRow}>
+            <ThemedText style={styles.totalLabel}>Updated Total:</ThemedText>
+            <ThemedText type="defaultSemiBold" style={styles.totalValue}>
+              ${total.toFixed(2)}
+            </ThemedText>
+          </View>
+
+          <View style={styles.actions}>
+            <Pressable style={styles.cancelButton} onPress={onCancel} disabled={isApplying}>
+              <ThemedText style={styles.cancelButtonText}>Cancel</ThemedText>
+            </Pressable>
+            <Pressable
+              style={[styles.confirmButton, (isApplying || total === 0) && styles.buttonDisabled]}
+              onPress={onConfirm}
+              disabled={isApplying || total === 0}>
+              {isApplying ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <ThemedText style={styles.confirmButtonText}>Update & Continue</ThemedText>
+              )}
+            </Pressable>
+          </View>
+        </ThemedView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  dialog: {
+    borderRadius: 16,
+    padding: 20,
+    gap: 12,
+    maxHeight: '80%',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+  },
+  changes: {
+    flexGrow: 0,
+  },
+  changesContent: {
+    gap: 12,
+  },
+  eventChanges: {
+    gap: 4,
+  },
+  changeText: {
+    fontSize: 14,
+    color: '#E65100',
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(0, 0, 0, 0.1)',
+  },
+  totalLabel: {
+    fontSize: 16,
+  },
+  totalValue: {
+    fontSize: 18,
+    color: '#007AFF',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+  },
+  cancelButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    justifyContent: 'center',
+  },
+  cancelButtonText: {
+    color: '#666',
+    fontWeight: '600',
+  },
+  confirmButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+    minWidth: 160,
+    alignItems: 'center',
+  },
+  confirmButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
@@ -0,0 +1,132 @@
+import { Image } from 'expo-image';
+import { FlatList, Pressable, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { useCollectionEvents } from '@/hooks/use-collections';
+import { formatRelativeEventDate } from '@/lib/dates';
+import { Event, EventCollection } from '@/types/events';
+
+type EventCollectionRowProps = {
+  collection: EventCollection;
+  onPressEvent: (eventId: string) => void;
+};
+
+/**
+ * Horizontal row of compact event cards for one curated collection. Renders nothing until
+ * the collection has events.
+ */
+export function EventCollectionRow({ collection, onPressEvent }: EventCollectionRowProps) {
+  const { data: events } = useCollectionEvents(collection.collection_id);
+
+  if (!events || events.length === 0) {
+    return null;
+  }
+
+  const renderEvent = ({ item }: { item: Event }) => (
+    <Pressable style={styles.card} onPress={() => onPressEvent(item.event_id)}>
+      {item.image_url ? (
+        <Image source={{ uri: item.image_url }} style={styles.image} contentFit="cover" />
+      ) : (
+        <View style={[styles.image, styles.placeholderImage]}>
+          <ThemedText style={styles.placeholderText}>No Image</ThemedText>
+        </View>
+      )}
+      <View style={styles.cardContent}>
+        <ThemedText type="defaultSemiBold" style={styles.title} numberOfLines={2}>
+          {item.title}
+        </ThemedText>
+        <ThemedText style={styles.meta} numberOfLines={1}>
+          {formatRelativeEventDate(item)} · {item.venue}
+        </ThemedText>
+        {item.ticket_types.length > 0 && (
+          <ThemedText style={styles.price}>
+            From ${Math.min(...item.ticket_types.map((tt) => tt.price)).toFixed(2)}
+          </ThemedText>
+        )}
+      </View>
+    </Pressable>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <ThemedText type="subtitle" style={styles.heading}>
+          {collection.title}
+        </ThemedText>
+        {!!collection.description && (
+          <ThemedText style={styles.description}>{collection.description}</ThemedText>
+        )}
+      </View>
+      <FlatList
+        horizontal
+        data={events}
+        renderItem={renderEvent}
+        keyExtractor={(item) => item.event_id}
+        contentContainerStyle={styles.listContent}
+        showsHorizontalScrollIndicator={false}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 20,
+    gap: 10,
+  },
+  header: {
+    gap: 2,
+  },
+  heading: {
+    fontSize: 18,
+  },
+  description: {
+    fontSize: 13,
+    color: '#666',
+  },
+  listContent: {
+    gap: 12,
+  },
+  card: {
+    width: 200,
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    overflow: 'hidden',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 3,
+    elevation: 2,
+    marginBottom: 4,
+  },
+  image: {
+    width: '100%',
+    height: 110,
+    backgroundColor: '#f0f0f0',
+  },
+  placeholderImage: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#e0e0e0',
+  },
+  placeholderText: {
+    color: '#999',
+    fontSize: 12,
+  },
+  cardContent: {
+    padding: 10,
+    gap: 4,
+  },
+  title: {
+    fontSize: 15,
+    lineHeight: 20,
+  },
+  meta: {
+    fontSize: 12,
+    color: '#666',
+  },
+  price: {
+    fontSize: 13,
+    color: '#007AFF',
+  },
+});
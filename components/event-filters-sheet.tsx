@@ -0,0 +1,306 @@
+import { useState } from 'react';
+import { Modal, Pressable, ScrollView, StyleSheet, Switch, TextInput, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { DatePreset, DEFAULT_FILTERS, EventFilters } from '@/lib/event-filters';
+import { EventSort } from '@/types/events';
+
+type EventFiltersSheetProps = {
+  visible: boolean;
+  filters: EventFilters;
+  venues: string[];
+  priceBounds: { min: number; max: number } | null;
+  onApply: (filters: EventFilters) => void;
+  onClose: () => void;
+};
+
+const DATE_OPTIONS: { value: DatePreset; label: string }[] = [
+  { value: 'any', label: 'Any time' },
+  { value: 'tonight', label: 'Tonight' },
+  { value: 'weekend', label: 'This weekend' },
+  { value: 'custom', label: 'Custom' },
+];
+
+const SORT_OPTIONS: { value: EventSort; label: string }[] = [
+  { value: 'soonest', label: 'Soonest' },
+  { value: 'cheapest', label: 'Cheapest' },
+  { value: 'newest', label: 'Newest' },
+];
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function parsePriceInput(value: string): number | undefined {
+  const price = Number(value.trim());
+  return value.trim() && Number.isFinite(price) && price >= 0 ? price : undefined;
+}
+
+/**
+ * Bottom sheet for the Explore filters. Changes are kept as a draft until Apply is pressed.
+ */
+export function EventFiltersSheet({
+  visible,
+  filters,
+  venues,
+  priceBounds,
+  onApply,
+  onClose,
+}: EventFiltersSheetProps) {
+  const [draft, setDraft] = useState(filters);
+  const [minPrice, setMinPrice] = useState('');
+  const [maxPrice, setMaxPrice] = useState('');
+  const [wasVisible, setWasVisible] = useState(false);
+
+  // Start from the applied filters every time the sheet opens
+  if (visible !== wasVisible) {
+    setWasVisible(visible);
+    if (visible) {
+      setDraft(filters);
+      setMinPrice(filters.minPrice !== undefined ? String(filters.minPrice) : '');
+      setMaxPrice(filters.maxPrice !== undefined ? String(filters.maxPrice) : '');
+    }
+  }
+
+  const update = (changes: Partial<EventFilters>) => setDraft((current) => ({ ...current, ...changes }));
+
+  const invalidDay =
+    draft.when === 'custom' &&
+    [draft.from, draft.to].some((day) => !!day && !DAY_PATTERN.test(day));
+  const invalidPrice =
+    (!!minPrice.trim() && parsePriceInput(minPrice) === undefined) ||
+    (!!maxPrice.trim() && parsePriceInput(maxPrice) === undefined);
+
+  const handleApply = () => {
+    onApply({
+      ...draft,
+      from: draft.when === 'custom' ? draft.from || undefined : undefined,
+      to: draft.when === 'custom' ? draft.to || undefined : undefined,
+      minPrice: parsePriceInput(minPrice),
+      maxPrice: parsePriceInput(maxPrice),
+    });
+    onClose();
+  };
+
+  // Category and tag are picked outside the sheet, so Reset leaves them alone
+  const handleReset = () => {
+    setDraft({ ...DEFAULT_FILTERS, category: draft.category, tag: draft.tag });
+    setMinPrice('');
+    setMaxPrice('');
+  };
+
+  const renderChip = (label: string, selected: boolean, onPress: () => void) => (
+    <Pressable key={label} style={[styles.chip, selected && styles.chipSelected]} onPress={onPress}>
+      <ThemedText style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</ThemedText>
+    </Pressable>
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <Pressable style={styles.backdrop} onPress={onClose} accessibilityLabel="Close filters" />
+        <ThemedView style={styles.sheet}>
+          <View style={styles.handle} />
+          <View style={styles.header}>
+            <ThemedText type="subtitle">Filters</ThemedText>
+            <Pressable onPress={handleReset} hitSlop={8}>
+              <ThemedText style={styles.linkText}>Reset</ThemedText>
+            </Pressable>
+          </View>
+
+          <ScrollView style={styles.body} contentContainerStyle={styles.bodyContent} keyboardShouldPersistTaps="handled">
+            <View style={styles.section}>
+              <ThemedText type="defaultSemiBold">When</ThemedText>
+              <View style={styles.chipRow}>
+                {DATE_OPTIONS.map((option) =>
+                  renderChip(option.label, draft.when === option.value, () => update({ when: option.value }))
+                )}
+              </View>
+              {draft.when === 'custom' && (
+                <View style={styles.inputRow}>
+                  <TextInput
+                    style={styles.input}
+                    placeholder="From (YYYY-MM-DD)"
+                    value={draft.from ?? ''}
+                    onChangeText={(from) => update({ from })}
+                    autoCorrect={false}
+                    maxLength={10}
+                  />
+                  <TextInput
+                    style={styles.input}
+                    placeholder="To (YYYY-MM-DD)"
+                    value={draft.to ?? ''}
+                    onChangeText={(to) => update({ to })}
+                    autoCorrect={false}
+                    maxLength={10}
+                  />
+                </View>
+              )}
+              {invalidDay && <ThemedText style={styles.errorText}>Use the format YYYY-MM-DD</ThemedText>}
+            </View>
+
+            <View style={styles.section}>
+              <ThemedText type="defaultSemiBold">Price</ThemedText>
+              <View style={styles.inputRow}>
+                <TextInput
+                  style={styles.input}
+                  placeholder={priceBounds ? `Min ($${priceBounds.min.toFixed(0)})` : 'Min'}
+                  value={minPrice}
+                  onChangeText={setMinPrice}
+                  keyboardType="decimal-pad"
+                />
+                <TextInput
+                  style={styles.input}
+                  placeholder={priceBounds ? `Max ($${priceBounds.max.toFixed(0)})` : 'Max'}
+                  value={maxPrice}
+                  onChangeText={setMaxPrice}
+                  keyboardType="decimal-pad"
+                />
+              </View>
+              {invalidPrice && <ThemedText style={styles.errorText}>Enter a valid amount</ThemedText>}
+            </View>
+
+            {venues.length > 0 && (
+              <View style={styles.section}>
+                <ThemedText type="defaultSemiBold">Venue</ThemedText>
+                <View style={styles.chipRow}>
+                  {renderChip('Any venue', !draft.venue, () => update({ venue: undefined }))}
+                  {venues.map((venue) =>
+                    renderChip(venue, draft.venue === venue, () => update({ venue }))
+                  )}
+                </View>
+              </View>
+            )}
+
+            <View style={[styles.section, styles.switchRow]}>
+              <ThemedText type="defaultSemiBold">Tickets available</ThemedText>
+              <Switch
+                value={draft.availableOnly}
+                onValueChange={(availableOnly) => update({ availableOnly })}
+                trackColor={{ true: '#007AFF' }}
+              />
+            </View>
+
+            <View style={styles.section}>
+              <ThemedText type="defaultSemiBold">Sort by</ThemedText>
+              <View style={styles.chipRow}>
+                {SORT_OPTIONS.map((option) =>
+                  renderChip(option.label, draft.sort === option.value, () => update({ sort: option.value }))
+                )}
+              </View>
+            </View>
+          </ScrollView>
+
+          <Pressable
+            style={[styles.applyButton, (invalidDay || invalidPrice) && styles.buttonDisabled]}
+            onPress={handleApply}
+            disabled={invalidDay || invalidPrice}>
+            <ThemedText type="defaultSemiBold" style={styles.applyButtonText}>
+              Show Events
+            </ThemedText>
+          </Pressable>
+        </ThemedView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingHorizontal: 20,
+    paddingTop: 8,
+    paddingBottom: 32,
+    maxHeight: '85%',
+    gap: 12,
+  },
+  handle: {
+    alignSelf: 'center',
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#ccc',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  linkText: {
+    color: '#007AFF',
+    fontSize: 16,
+  },
+  body: {
+    flexGrow: 0,
+  },
+  bodyContent: {
+    gap: 20,
+  },
+  section: {
+    gap: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'rgba(0, 122, 255, 0.1)',
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#007AFF',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#f44336',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  applyButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  applyButtonText: {
+    color: '#fff',
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,47 @@
+import { StyleSheet } from 'react-native';
+
+import { ThemedText, type ThemedTextProps } from '@/components/themed-text';
+
+type HighlightedTextProps = ThemedTextProps & {
+  text: string;
+  query: string;
+};
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Renders `text` with every case-insensitive match of the words in `query` highlighted.
+ */
+export function HighlightedText({ text, query, ...textProps }: HighlightedTextProps) {
+  const terms = query.trim().split(/\s+/).filter(Boolean).map(escapeRegExp);
+  if (terms.length === 0) {
+    return <ThemedText {...textProps}>{text}</ThemedText>;
+  }
+
+  const pattern = new RegExp(`(${terms.join('|')})`, 'gi');
+  const parts = text.split(pattern);
+
+  return (
+    <ThemedText {...textProps}>
+      {parts.map((part, index) =>
+        // split() with a capture group puts the matches at odd indexes
+        index % 2 === 1 ? (
+          <ThemedText key={index} style={[textProps.style, styles.highlight]}>
+            {part}
+          </ThemedText>
+        ) : (
+          part
+        )
+      )}
+    </ThemedText>
+  );
+}
+
+const styles = StyleSheet.create({
+  highlight: {
+    backgroundColor: 'rgba(255, 204, 0, 0.4)',
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,254 @@
+import { useRouter } from 'expo-router';
+import { ActivityIndicator, Modal, Pressable, ScrollView, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { getCartSubtotal, useCartSelection, useCarts } from '@/hooks/use-cart';
+import { useEvent } from '@/hooks/use-events';
+import { canAddTicket } from '@/lib/ticket-rules';
+import { Cart } from '@/types/cart';
+
+type MiniCartSheetProps = {
+  visible: boolean;
+  onClose: () => void;
+};
+
+/**
+ * Bottom sheet listing every cart with quantity steppers and a shortcut to checkout.
+ */
+export function MiniCartSheet({ visible, onClose }: MiniCartSheetProps) {
+  const router = useRouter();
+  const { data, isLoading } = useCarts();
+  const carts = (data ?? []).filter((cart) => cart.items.length > 0);
+  const total = carts.reduce((sum, cart) => sum + getCartSubtotal(cart), 0);
+
+  const handleCheckout = () => {
+    onClose();
+    router.push('/cart');
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <Pressable style={styles.backdrop} onPress={onClose} accessibilityLabel="Close cart" />
+        <ThemedView style={styles.sheet}>
+          <View style={styles.handle} />
+          <View style={styles.header}>
+            <ThemedText type="subtitle">Your Cart</ThemedText>
+            <Pressable onPress={onClose} hitSlop={8}>
+              <ThemedText style={styles.closeText}>Close</ThemedText>
+            </Pressable>
+          </View>
+
+          {isLoading ? (
+            <ActivityIndicator style={styles.loading} />
+          ) : carts.length === 0 ? (
+            <ThemedText style={styles.emptyText}>Your cart is empty</ThemedText>
+          ) : (
+            <ScrollView style={styles.list} contentContainerStyle={styles.listContent}>
+              {carts.map((cart) => (
+                <MiniCartEvent key={cart.event_id} cart={cart} />
+              ))}
+            </ScrollView>
+          )}
+
+          {carts.length > 0 && (
+            <View style={styles.footer}>
+              <View style={styles.totalRow}>
+                <ThemedText style={styles.totalLabel}>Total:</ThemedText>
+                <ThemedText type="defaultSemiBold" style={styles.totalValue}>
+                  ${total.toFixed(2)}
+                </ThemedText>
+              </View>
+              <Pressable style={styles.checkoutButton} onPress={handleCheckout}>
+                <ThemedText type="defaultSemiBold" style={styles.checkoutButtonText}>
+                  Go to Checkout
+                </ThemedText>
+              </Pressable>
+            </View>
+          )}
+        </ThemedView>
+      </View>
+    </Modal>
+  );
+}
+
+function MiniCartEvent({ cart }: { cart: Cart }) {
+  const { data: event } = useEvent(cart.event_id);
+  const { selection, changeQuantity, isSaving } = useCartSelection(cart.event_id, event);
+
+  return (
+    <View style={styles.event}>
+      <View style={styles.eventHeader}>
+        <ThemedText type="defaultSemiBold" numberOfLines={1} style={styles.eventTitle}>
+          {event?.title || 'Event'}
+        </ThemedText>
+        {isSaving && <ActivityIndicator size="small" />}
+      </View>
+      {cart.items.map((item) => {
+        const quantity = selection[item.ticket_type] ?? item.quantity;
+        const ticketType = event?.ticket_types.find((tt) => tt.name === item.ticket_type);
+        const canAdd = !!ticketType && canAddTicket(ticketType, selection);
+        return (
+          <View key={item.ticket_type} style={styles.itemRow}>
+            <View style={styles.itemInfo}>
+              <ThemedText style={styles.itemName}>{item.ticket_type}</ThemedText>
+              <ThemedText style={styles.itemPrice}>${item.price.toFixed(2)} each</ThemedText>
+            </View>
+            <View style={styles.stepper}>
+              <Pressable
+                style={[styles.stepperButton, (!event || quantity === 0) && styles.stepperDisabled]}
+                onPress={() => changeQuantity(item.ticket_type, -1)}
+                disabled={!event || quantity === 0}>
+                <ThemedText style={styles.stepperText}>−</ThemedText>
+              </Pressable>
+              <ThemedText type="defaultSemiBold" style={styles.quantity}>
+                {quantity}
+              </ThemedText>
+              <Pressable
+                style={[styles.stepperButton, !canAdd && styles.stepperDisabled]}
+                onPress={() => changeQuantity(item.ticket_type, 1)}
+                disabled={!canAdd}>
+                <ThemedText style={styles.stepperText}>+</ThemedText>
+              </Pressable>
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingHorizontal: 20,
+    paddingTop: 8,
+    paddingBottom: 32,
+    maxHeight: '75%',
+    gap: 12,
+  },
+  handle: {
+    alignSelf: 'center',
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#ccc',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  closeText: {
+    color: '#007AFF',
+    fontSize: 16,
+  },
+  loading: {
+    marginVertical: 24,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginVertical: 24,
+  },
+  list: {
+    flexGrow: 0,
+  },
+  listContent: {
+    gap: 16,
+  },
+  event: {
+    gap: 8,
+  },
+  eventHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  eventTitle: {
+    flex: 1,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 12,
+    backgroundColor: 'rgba(0, 0, 0, 0.05)',
+    borderRadius: 12,
+  },
+  itemInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  itemName: {
+    fontSize: 15,
+  },
+  itemPrice: {
+    fontSize: 13,
+    color: '#666',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#007AFF',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperDisabled: {
+    opacity: 0.3,
+  },
+  stepperText: {
+    color: '#fff',
+    fontSize: 18,
+    lineHeight: 20,
+    fontWeight: '600',
+  },
+  quantity: {
+    minWidth: 20,
+    textAlign: 'center',
+  },
+  footer: {
+    gap: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(0, 0, 0, 0.1)',
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  totalLabel: {
+    fontSize: 16,
+  },
+  totalValue: {
+    fontSize: 18,
+    color: '#007AFF',
+  },
+  checkoutButton: {
+    backgroundColor: '#000',
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  checkoutButtonText: {
+    color: '#fff',
+    fontSize: 16,
+  },
+});
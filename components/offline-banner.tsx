@@ -0,0 +1,49 @@
+import { StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { useOnlineStatus } from '@/hooks/use-online-status';
+import { formatDate } from '@/lib/dates';
+
+function formatUpdatedAt(updatedAt: number) {
+  const minutes = Math.floor((Date.now() - updatedAt) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  return formatDate(updatedAt, 'monthDay');
+}
+
+/**
+ * Shown while the device is offline so users know they are looking at cached data.
+ * Pass the query's `dataUpdatedAt` to show when it was last refreshed.
+ */
+export function OfflineBanner({ updatedAt }: { updatedAt?: number }) {
+  const isOnline = useOnlineStatus();
+
+  if (isOnline) return null;
+
+  return (
+    <View style={styles.banner}>
+      <ThemedText style={styles.text}>
+        You&apos;re offline
+        {updatedAt ? ` · Last updated ${formatUpdatedAt(updatedAt)}` : ' · Showing saved data'}
+      </ThemedText>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    backgroundColor: '#FFF3E0',
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    marginHorizontal: 16,
+    marginBottom: 12,
+  },
+  text: {
+    color: '#E65100',
+    fontSize: 13,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,113 @@
+import { useRouter } from 'expo-router';
+import { Pressable, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { formatCountdown } from '@/hooks/use-countdown';
+
+// Switch to the warning style when this little time is left
+const WARNING_THRESHOLD_MS = 2 * 60 * 1000;
+
+type OrderHoldBannerProps = {
+  eventId: string;
+  remainingMs: number | null;
+  isChecking: boolean;
+  isExpired: boolean;
+};
+
+/**
+ * Shows how long a pending order keeps its tickets reserved, and a way back to the event
+ * once the server has released the hold. Pair with `useOrderHold`.
+ */
+export function OrderHoldBanner({
+  eventId,
+  remainingMs,
+  isChecking,
+  isExpired,
+}: OrderHoldBannerProps) {
+  const router = useRouter();
+
+  if (isExpired) {
+    return (
+      <View style={[styles.banner, styles.expired]}>
+        <ThemedText type="defaultSemiBold" style={styles.expiredTitle}>
+          Your hold expired
+        </ThemedText>
+        <ThemedText style={styles.expiredText}>
+          The tickets were released. Re-add them to your cart to try again.
+        </ThemedText>
+        <Pressable style={styles.button} onPress={() => router.replace(`/event/${eventId}`)}>
+          <ThemedText style={styles.buttonText}>Re-add Tickets</ThemedText>
+        </Pressable>
+      </View>
+    );
+  }
+
+  if (isChecking) {
+    return (
+      <View style={[styles.banner, styles.info]}>
+        <ThemedText style={styles.text}>
+          Checking your hold... You can still pay while the tickets are reserved.
+        </ThemedText>
+      </View>
+    );
+  }
+
+  if (remainingMs === null) return null;
+
+  const isWarning = remainingMs <= WARNING_THRESHOLD_MS;
+
+  return (
+    <View style={[styles.banner, isWarning ? styles.warning : styles.info]}>
+      <ThemedText style={[styles.text, isWarning && styles.warningText]}>
+        Tickets reserved for{' '}
+        <ThemedText type="defaultSemiBold" style={[styles.text, isWarning && styles.warningText]}>
+          {formatCountdown(remainingMs)}
+        </ThemedText>
+      </ThemedText>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    padding: 12,
+    borderRadius: 8,
+    gap: 8,
+  },
+  info: {
+    backgroundColor: 'rgba(0, 122, 255, 0.1)',
+  },
+  warning: {
+    backgroundColor: '#FFF3E0',
+  },
+  expired: {
+    backgroundColor: '#ffebee',
+    borderWidth: 1,
+    borderColor: '#f44336',
+  },
+  text: {
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  warningText: {
+    color: '#E65100',
+  },
+  expiredTitle: {
+    color: '#c62828',
+  },
+  expiredText: {
+    fontSize: 14,
+    color: '#c62828',
+  },
+  button: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+  },
+  buttonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,12 @@
+import { StripeProvider } from '@stripe/stripe-react-native';
+import type { ReactElement } from 'react';
+
+import { STRIPE_PUBLISHABLE_KEY } from '@/lib/payments/config';
+
+export function PaymentProvider({ children }: { children: ReactElement | ReactElement[] }) {
+  return (
+    <StripeProvider publishableKey={STRIPE_PUBLISHABLE_KEY} urlScheme="ticketingfrontend">
+      {children}
+    </StripeProvider>
+  );
+}
@@ -0,0 +1,6 @@
+import type { ReactElement } from 'react';
+
+// Stripe React Native doesn't run on web, so there is nothing to provide
+export function PaymentProvider({ children }: { children: ReactElement | ReactElement[] }) {
+  return <>{children}</>;
+}
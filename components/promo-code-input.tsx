@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { ActivityIndicator, Pressable, StyleSheet, TextInput, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+
+type PromoCodeInputProps = {
+  appliedCode: string | null;
+  isValidating: boolean;
+  error: string | null;
+  onApply: (code: string) => void;
+  onRemove: () => void;
+};
+
+/**
+ * Promo code entry. Once a code is applied it shows as a chip that can be removed.
+ */
+export function PromoCodeInput({ appliedCode, isValidating, error, onApply, onRemove }: PromoCodeInputProps) {
+  const [code, setCode] = useState('');
+
+  const handleApply = () => {
+    const trimmed = code.trim().toUpperCase();
+    if (trimmed) {
+      onApply(trimmed);
+    }
+  };
+
+  if (appliedCode && !error) {
+    return (
+      <View style={styles.applied}>
+        <ThemedText style={styles.appliedText}>
+          Promo <ThemedText type="defaultSemiBold" style={styles.appliedText}>{appliedCode}</ThemedText>{' '}
+          {isValidating ? 'checking...' : 'applied'}
+        </ThemedText>
+        <Pressable onPress={onRemove} hitSlop={8}>
+          <ThemedText style={styles.removeText}>Remove</ThemedText>
+        </Pressable>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <TextInput
+          style={styles.input}
+          placeholder="Promo code"
+          autoCapitalize="characters"
+          autoCorrect={false}
+          value={code}
+          onChangeText={setCode}
+          onSubmitEditing={handleApply}
+          editable={!isValidating}
+        />
+        <Pressable
+          style={[styles.applyButton, (!code.trim() || isValidating) && styles.buttonDisabled]}
+          onPress={handleApply}
+          disabled={!code.trim() || isValidating}>
+          {isValidating ? (
+            <ActivityIndicator size="small" color="#fff" />
+          ) : (
+            <ThemedText style={styles.applyButtonText}>Apply</ThemedText>
+          )}
+        </Pressable>
+      </View>
+      {error && <ThemedText style={styles.errorText}>{error}</ThemedText>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  applyButton: {
+    paddingHorizontal: 20,
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    justifyContent: 'center',
+    alignItems: 'center',
+    minWidth: 80,
+  },
+  applyButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#f44336',
+  },
+  applied: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 12,
+    backgroundColor: 'rgba(76, 175, 80, 0.1)',
+    borderRadius: 12,
+  },
+  appliedText: {
+    fontSize: 14,
+    color: '#2E7D32',
+  },
+  removeText: {
+    fontSize: 14,
+    color: '#ff3b30',
+  },
+});
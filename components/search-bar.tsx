@@ -0,0 +1,58 @@
+import { Pressable, StyleSheet, TextInput, View, type TextInputProps } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+
+type SearchBarProps = Omit<TextInputProps, 'value' | 'onChangeText'> & {
+  value: string;
+  onChangeText: (text: string) => void;
+};
+
+/**
+ * Search input with a clear button.
+ */
+export function SearchBar({ value, onChangeText, style, ...inputProps }: SearchBarProps) {
+  return (
+    <View style={styles.container}>
+      <ThemedText style={styles.icon}>🔍</ThemedText>
+      <TextInput
+        style={[styles.input, style]}
+        value={value}
+        onChangeText={onChangeText}
+        autoCorrect={false}
+        autoCapitalize="none"
+        returnKeyType="search"
+        clearButtonMode="never"
+        {...inputProps}
+      />
+      {value.length > 0 && (
+        <Pressable onPress={() => onChangeText('')} hitSlop={8} accessibilityLabel="Clear search">
+          <ThemedText style={styles.clear}>✕</ThemedText>
+        </Pressable>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+  },
+  icon: {
+    fontSize: 14,
+  },
+  input: {
+    flex: 1,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  clear: {
+    fontSize: 14,
+    color: '#999',
+  },
+});
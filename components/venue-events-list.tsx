@@ -0,0 +1,89 @@
+import { useRouter } from 'expo-router';
+import { ActivityIndicator, Pressable, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { useEvents } from '@/hooks/use-events';
+import { formatRelativeEventDate } from '@/lib/dates';
+
+type VenueEventsListProps = {
+  venueId: string;
+  excludeEventId?: string;
+  limit?: number;
+  title?: string;
+};
+
+/**
+ * Upcoming events at a venue, optionally leaving out the event being viewed.
+ */
+export function VenueEventsList({
+  venueId,
+  excludeEventId,
+  limit = 5,
+  title = 'More events at this venue',
+}: VenueEventsListProps) {
+  const router = useRouter();
+  const { data, isLoading } = useEvents({ status: 'active', venue_id: venueId });
+  const events = (data ?? []).filter((event) => event.event_id !== excludeEventId).slice(0, limit);
+
+  if (isLoading) {
+    return <ActivityIndicator style={styles.loading} />;
+  }
+
+  if (events.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <ThemedText type="subtitle" style={styles.title}>
+        {title}
+      </ThemedText>
+      {events.map((event) => (
+        <Pressable
+          key={event.event_id}
+          style={styles.row}
+          onPress={() => router.push(`/event/${event.event_id}`)}>
+          <View style={styles.rowText}>
+            <ThemedText type="defaultSemiBold" numberOfLines={1}>
+              {event.title}
+            </ThemedText>
+            <ThemedText style={styles.date}>{formatRelativeEventDate(event)}</ThemedText>
+          </View>
+          <ThemedText style={styles.chevron}>›</ThemedText>
+        </Pressable>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  loading: {
+    marginVertical: 16,
+  },
+  title: {
+    fontSize: 18,
+    marginBottom: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: 'rgba(0, 0, 0, 0.05)',
+  },
+  rowText: {
+    flex: 1,
+    gap: 2,
+  },
+  date: {
+    fontSize: 13,
+    color: '#666',
+  },
+  chevron: {
+    fontSize: 22,
+    color: '#999',
+  },
+});
@@ -0,0 +1,99 @@
+import { Image } from 'expo-image';
+import * as Linking from 'expo-linking';
+import { Pressable, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { formatAddress, getDirectionsUrl, getStaticMapUrl } from '@/lib/maps';
+import { Venue } from '@/types/venues';
+
+type VenueLocationProps = {
+  venue: Venue;
+  onPressVenue?: () => void;
+};
+
+/**
+ * Static map, address, entrance notes and a "Get directions" action for a venue.
+ */
+export function VenueLocation({ venue, onPressVenue }: VenueLocationProps) {
+  const mapUrl = getStaticMapUrl(venue, 600, 300);
+
+  return (
+    <View style={styles.container}>
+      {mapUrl && (
+        <Pressable onPress={() => Linking.openURL(getDirectionsUrl(venue))}>
+          <Image
+            source={{ uri: mapUrl }}
+            style={styles.map}
+            contentFit="cover"
+            accessibilityLabel={`Map of ${venue.name}`}
+          />
+        </Pressable>
+      )}
+      <View style={styles.details}>
+        <Pressable onPress={onPressVenue} disabled={!onPressVenue}>
+          <ThemedText type="defaultSemiBold" style={onPressVenue && styles.link}>
+            {venue.name}
+          </ThemedText>
+        </Pressable>
+        <ThemedText style={styles.address}>{formatAddress(venue.address)}</ThemedText>
+        {!!venue.entrance_notes && (
+          <View style={styles.entrance}>
+            <ThemedText style={styles.entranceText}>🚪 {venue.entrance_notes}</ThemedText>
+          </View>
+        )}
+        <Pressable
+          style={styles.directionsButton}
+          onPress={() => Linking.openURL(getDirectionsUrl(venue))}>
+          <ThemedText type="defaultSemiBold" style={styles.directionsButtonText}>
+            Get Directions
+          </ThemedText>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 12,
+    overflow: 'hidden',
+    backgroundColor: 'rgba(0, 0, 0, 0.05)',
+  },
+  map: {
+    width: '100%',
+    height: 160,
+    backgroundColor: '#e0e0e0',
+  },
+  details: {
+    padding: 16,
+    gap: 8,
+  },
+  link: {
+    color: '#007AFF',
+  },
+  address: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+  },
+  entrance: {
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: 'rgba(230, 81, 0, 0.1)',
+  },
+  entranceText: {
+    fontSize: 13,
+    color: '#E65100',
+  },
+  directionsButton: {
+    marginTop: 4,
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+    backgroundColor: '#007AFF',
+  },
+  directionsButtonText: {
+    color: '#fff',
+    fontSize: 15,
+  },
+});
@@ -1,30 +1,52 @@
 // Auth context for email/password authentication with OTP verification
 import * as React from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useQueryClient } from '@tanstack/react-query';
 
-const API_URL = process.env.EXPO_PUBLIC_API_URL ?? 'http://localhost:8000';
+import { refreshAccessToken, setAuthHandlers } from '@/lib/api/client';
+import { authApi } from '@/lib/api/endpoints';
+import { NetworkError, UnauthorizedError } from '@/lib/api/errors';
+import { secureStorage } from '@/lib/secure-storage';
+import { mergeSessionCarts } from '@/lib/session-cart';
+import { clearWallet } from '@/lib/ticket-wallet';
+import { AuthUser, AuthUserProfile } from '@/types/auth';
+
+export type { AuthUser, AuthUserProfile } from '@/types/auth';
 
 // Storage keys
 const STORAGE_KEYS = {
   PENDING_EMAIL: 'auth_pendingEmail',
   IS_REGISTRATION_FLOW: 'auth_isRegistrationFlow',
   ACCESS_TOKEN: 'auth_accessToken',
+  REFRESH_TOKEN: 'auth_refreshToken',
   USER: 'auth_user',
+  SECURE_MIGRATION_DONE: 'auth_secureStorageMigrated',
 } as const;
 
-export type AuthUser = {
-  user_id: string;
-  email: string;
-  name?: string;
-  role: string;
-};
+// Credentials live in secure storage; everything else stays in AsyncStorage
+const SENSITIVE_KEYS = [
+  STORAGE_KEYS.ACCESS_TOKEN,
+  STORAGE_KEYS.REFRESH_TOKEN,
+  STORAGE_KEYS.USER,
+] as const;
+
+// Older builds wrote credentials to AsyncStorage in plain text: move them once, then delete the originals
+async function migrateCredentialsToSecureStorage() {
+  if (await AsyncStorage.getItem(STORAGE_KEYS.SECURE_MIGRATION_DONE)) return;
+
+  for (const key of SENSITIVE_KEYS) {
+    const legacyValue = await AsyncStorage.getItem(key);
+    if (legacyValue !== null && (await secureStorage.getItem(key)) === null) {
+      await secureStorage.setItem(key, legacyValue);
+    }
+  }
+  await AsyncStorage.multiRemove([...SENSITIVE_KEYS]);
+  await AsyncStorage.setItem(STORAGE_KEYS.SECURE_MIGRATION_DONE, 'true');
+  console.log('[AuthContext] 🔐 Migrated credentials from AsyncStorage to secure storage');
+}
 
 export type AppAuthError = { type: string; message: string };
 
-export type AuthUserProfile = AuthUser & {
-  created_at?: string;
-};
-
 export type AuthContextType = {
   user: AuthUser | null;
   accessToken: string | null;
@@ -54,15 +76,31 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   const [error, setError] = React.useState<AppAuthError | null>(null);
   const [pendingEmail, setPendingEmail] = React.useState<string | null>(null);
   const [isRegistrationFlow, setIsRegistrationFlow] = React.useState(false);
+  // Kept in a ref: it's only read by the refresh handler and never rendered
+  const refreshTokenRef = React.useRef<string | null>(null);
+  const queryClient = useQueryClient();
 
-  // Restore auth state from AsyncStorage on mount
+  // Restore auth state from storage on mount
   React.useEffect(() => {
     const restoreAuthState = async () => {
-      console.log('[AuthContext] 🔄 Restoring auth state from AsyncStorage...');
+      console.log('[AuthContext] 🔄 Restoring auth state from storage...');
       try {
-        const [storedToken, storedUser, storedEmail, storedIsRegistrationFlow] = await Promise.all([
-          AsyncStorage.getItem(STORAGE_KEYS.ACCESS_TOKEN),
-          AsyncStorage.getItem(STORAGE_KEYS.USER),
+        try {
+          await migrateCredentialsToSecureStorage();
+        } catch (migrationError) {
+          console.error('[AuthContext] ❌ Credential migration failed:', migrationError);
+        }
+
+        const [
+          storedToken,
+          storedRefreshToken,
+          storedUser,
+          storedEmail,
+          storedIsRegistrationFlow,
+        ] = await Promise.all([
+          secureStorage.getItem(STORAGE_KEYS.ACCESS_TOKEN),
+          secureStorage.getItem(STORAGE_KEYS.REFRESH_TOKEN),
+          secureStorage.getItem(STORAGE_KEYS.USER),
           AsyncStorage.getItem(STORAGE_KEYS.PENDING_EMAIL),
           AsyncStorage.getItem(STORAGE_KEYS.IS_REGISTRATION_FLOW),
         ]);
@@ -74,6 +112,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
         } else {
           console.log('[AuthContext] ℹ️ No access token found in storage');
         }
+        refreshTokenRef.current = storedRefreshToken;
 
         if (storedUser) {
           try {
@@ -135,33 +174,6 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     }
   }, []);
 
-  // Helper: Make API request with error handling
-  const apiRequest = async <T,>(
-    endpoint: string,
-    options: RequestInit = {}
-  ): Promise<T> => {
-    const response = await fetch(`${API_URL}${endpoint}`, {
-      headers: {
-        'Content-Type': 'application/json',
-        ...options.headers,
-      },
-      ...options,
-    });
-
-    if (!response.ok) {
-      let errorMessage = 'Request failed';
-      try {
-        const errorData = await response.json();
-        errorMessage = errorData.detail || errorData.message || `Server error: ${response.status}`;
-      } catch {
-        errorMessage = `Server error: ${response.status} ${response.statusText}`;
-      }
-      throw new Error(errorMessage);
-    }
-
-    return response.json();
-  };
-
   const login = async (email: string, password: string): Promise<{ email: string }> => {
     console.log('[AuthContext] 🔐 Starting login process...', { email });
     setIsLoading(true);
@@ -169,10 +181,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
 
     try {
       console.log('[AuthContext] 📤 Sending login request to /api/v1/auth/login');
-      const data = await apiRequest<{ email: string; message: string }>('/api/v1/auth/login', {
-        method: 'POST',
-        body: JSON.stringify({ email, password }),
-      });
+      const data = await authApi.login(email, password);
 
       console.log('[AuthContext] ✅ Login response received:', { email: data.email, hasMessage: !!data.message });
 
@@ -189,22 +198,13 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
 
       console.error('[AuthContext] ❌ Login error:', { error: errorMessage, email });
 
-      // Check for network errors
-      if (
-        errorMessage.includes('fetch') ||
-        errorMessage.includes('network') ||
-        errorMessage.includes('Failed to fetch')
-      ) {
+      if (err instanceof NetworkError) {
         console.error('[AuthContext] 🌐 Network error detected');
-        setError({
-          type: 'login',
-          message: 'Network error: Could not connect to server. Please check your connection.',
-        });
-      } else {
-        setError({ type: 'login', message: errorMessage });
       }
+      setError({ type: 'login', message: errorMessage });
 
-      throw new Error(errorMessage);
+      // Rethrow the original error so screens can inspect its type and field details
+      throw err;
     } finally {
       setIsLoading(false);
       console.log('[AuthContext] 🔄 Login process completed, isLoading set to false');
@@ -218,13 +218,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
 
     try {
       console.log('[AuthContext] 📤 Sending OTP verification request to /api/v1/auth/verify-otp');
-      const data = await apiRequest<{ access_token: string; user: AuthUser }>(
-        '/api/v1/auth/verify-otp',
-        {
-          method: 'POST',
-          body: JSON.stringify({ email, otp_code: otpCode }),
-        }
-      );
+      const data = await authApi.verifyOtp(email, otpCode);
 
       console.log('[AuthContext] ✅ OTP verification successful:', {
         hasToken: !!data.access_token,
@@ -235,17 +229,31 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
 
       setAccessToken(data.access_token);
       setUser(data.user);
+      refreshTokenRef.current = data.refresh_token ?? null;
       console.log('[AuthContext] 💾 User state updated with token and user data');
       
-      // Persist token and user to AsyncStorage so they survive remounts
+      // Persist token and user to secure storage so they survive remounts
       await Promise.all([
-        AsyncStorage.setItem(STORAGE_KEYS.ACCESS_TOKEN, data.access_token),
-        AsyncStorage.setItem(STORAGE_KEYS.USER, JSON.stringify(data.user)),
+        secureStorage.setItem(STORAGE_KEYS.ACCESS_TOKEN, data.access_token),
+        secureStorage.setItem(STORAGE_KEYS.USER, JSON.stringify(data.user)),
+        data.refresh_token
+          ? secureStorage.setItem(STORAGE_KEYS.REFRESH_TOKEN, data.refresh_token)
+          : secureStorage.removeItem(STORAGE_KEYS.REFRESH_TOKEN),
       ]);
-      console.log('[AuthContext] 💾 Token and user saved to AsyncStorage');
+      console.log('[AuthContext] 💾 Token and user saved to secure storage');
       
       await clearOtpFlow();
       console.log('[AuthContext] 🧹 OTP flow cleared');
+
+      // Carry over anything added to the cart before signing in; a failed merge shouldn't fail the login
+      try {
+        const mergedEventIds = await mergeSessionCarts(data.access_token);
+        console.log('[AuthContext] 🛒 Session carts merged:', mergedEventIds);
+      } catch (mergeError) {
+        console.error('[AuthContext] ❌ Session cart merge failed:', mergeError);
+      }
+      queryClient.invalidateQueries({ queryKey: ['cart'] });
+      queryClient.invalidateQueries({ queryKey: ['carts'] });
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'OTP verification failed';
       console.error('[AuthContext] ❌ OTP verification failed:', { error: errorMessage, email });
@@ -268,10 +276,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
 
     try {
       console.log('[AuthContext] 📤 Sending registration request to /api/v1/auth/register');
-      const data = await apiRequest<{ email: string }>('/api/v1/auth/register', {
-        method: 'POST',
-        body: JSON.stringify({ email, password, name, role: 'customer' }),
-      });
+      const data = await authApi.register(email, password, name);
 
       console.log('[AuthContext] ✅ Registration successful, email:', data.email);
       return { email: data.email };
@@ -293,10 +298,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
 
     try {
       console.log('[AuthContext] 📤 Sending email verification request to /api/v1/auth/verify-email');
-      await apiRequest('/api/v1/auth/verify-email', {
-        method: 'POST',
-        body: JSON.stringify({ email, otp_code: otpCode }),
-      });
+      await authApi.verifyEmail(email, otpCode);
 
       console.log('[AuthContext] ✅ Email verification successful');
       // After email verification, user is created but NOT logged in yet
@@ -349,29 +351,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
 
     try {
       console.log('[AuthContext] 📤 Sending GET request to /api/v1/auth/me');
-      const response = await fetch(`${API_URL}/api/v1/auth/me`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${accessToken}`,
-        },
-      });
-
-      console.log('[AuthContext] 📥 Profile response status:', response.status, response.statusText);
-
-      if (!response.ok) {
-        let errorMessage = 'Failed to fetch profile';
-        try {
-          const errorData = await response.json();
-          errorMessage = errorData.detail || errorData.message || `Server error: ${response.status}`;
-        } catch {
-          errorMessage = `Server error: ${response.status} ${response.statusText}`;
-        }
-        console.error('[AuthContext] ❌ Profile fetch failed:', errorMessage);
-        throw new Error(errorMessage);
-      }
-
-      const data = await response.json();
+      const data = await authApi.me(accessToken);
       console.log('[AuthContext] ✅ Profile data received:', {
         userId: data.user_id,
         email: data.email,
@@ -410,42 +390,94 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     setUser(null);
     setAccessToken(null);
     setError(null);
+    refreshTokenRef.current = null;
     console.log('[AuthContext] 🧹 Clearing user state and token');
     
-    // Clear persisted auth data from AsyncStorage
+    // Wipe every sensitive key, including any plain-text copies a failed migration left behind
     await Promise.all([
-      AsyncStorage.removeItem(STORAGE_KEYS.ACCESS_TOKEN),
-      AsyncStorage.removeItem(STORAGE_KEYS.USER),
+      ...SENSITIVE_KEYS.map((key) => secureStorage.removeItem(key)),
+      AsyncStorage.multiRemove([...SENSITIVE_KEYS]),
+      clearWallet(),
     ]);
-    console.log('[AuthContext] 🧹 Removed token and user from AsyncStorage');
+    console.log('[AuthContext] 🧹 Removed credentials from secure storage');
     
     await clearOtpFlow();
     console.log('[AuthContext] ✅ Sign out completed');
   }, [clearOtpFlow]);
 
+  // Exchange the refresh token for a new access token. Only a rejected refresh signs the user
+  // out; a network failure leaves the session intact so it can be retried later.
+  const renewAccessToken = React.useCallback(async (): Promise<string> => {
+    const refreshToken = refreshTokenRef.current;
+    console.log('[AuthContext] 🔁 Access token expired, refreshing...');
+
+    if (!refreshToken) {
+      console.error('[AuthContext] ❌ No refresh token available, signing out');
+      await signOut();
+      throw new UnauthorizedError('Your session has expired. Please sign in again.');
+    }
+
+    try {
+      const data = await authApi.refresh(refreshToken);
+      const nextRefreshToken = data.refresh_token ?? refreshToken;
+
+      refreshTokenRef.current = nextRefreshToken;
+      setAccessToken(data.access_token);
+      await Promise.all([
+        secureStorage.setItem(STORAGE_KEYS.ACCESS_TOKEN, data.access_token),
+        secureStorage.setItem(STORAGE_KEYS.REFRESH_TOKEN, nextRefreshToken),
+      ]);
+      console.log('[AuthContext] ✅ Access token refreshed');
+
+      return data.access_token;
+    } catch (err) {
+      if (err instanceof NetworkError) {
+        console.error('[AuthContext] 🌐 Network error during token refresh');
+        throw err;
+      }
+      console.error('[AuthContext] ❌ Token refresh rejected, signing out:', err);
+      await signOut();
+      throw new UnauthorizedError('Your session has expired. Please sign in again.');
+    }
+  }, [signOut]);
+
+  // Let the API client trigger refreshes on 401 responses
+  React.useEffect(() => {
+    setAuthHandlers({ refreshAccessToken: renewAccessToken });
+    return () => setAuthHandlers(null);
+  }, [renewAccessToken]);
+
   const fetchWithAuth = React.useCallback(
     async (url: string, options: RequestInit = {}) => {
-      const headers: HeadersInit = {
-        ...(options.headers || {}),
-      };
+      const send = (token: string | null) => {
+        const headers: HeadersInit = {
+          ...(options.headers || {}),
+        };
 
-      if (accessToken) {
-        (headers as any).Authorization = `Bearer ${accessToken}`;
-      }
+        if (token) {
+          (headers as any).Authorization = `Bearer ${token}`;
+        }
 
-      const res = await fetch(url, {
-        ...options,
-        headers,
-      });
+        return fetch(url, {
+          ...options,
+          headers,
+        });
+      };
+
+      const res = await send(accessToken);
 
-      if (res.status === 401) {
-        // Token invalid/expired – clear local state
-        await signOut();
+      if (res.status === 401 && accessToken) {
+        // Token expired – refresh once and replay; the refresh handler signs out if that fails
+        try {
+          return await send(await refreshAccessToken());
+        } catch {
+          return res;
+        }
       }
 
       return res;
     },
-    [accessToken, signOut]
+    [accessToken]
   );
 
   // Only show loading during initial restoration, not during API calls
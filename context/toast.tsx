@@ -0,0 +1,96 @@
+// Lightweight toast messages for non-blocking feedback (e.g. a cart change that was rolled back)
+import * as React from 'react';
+import { StyleSheet, View } from 'react-native';
+import Animated, { FadeInDown, FadeOutDown } from 'react-native-reanimated';
+
+import { ThemedText } from '@/components/themed-text';
+
+export type ToastType = 'info' | 'success' | 'error';
+
+type Toast = {
+  id: number;
+  message: string;
+  type: ToastType;
+};
+
+type ToastContextType = {
+  showToast: (message: string, type?: ToastType) => void;
+};
+
+const TOAST_DURATION = 3000; // 3 seconds
+
+const ToastContext = React.createContext<ToastContextType | undefined>(undefined);
+
+export const ToastProvider = ({ children }: { children: React.ReactNode }) => {
+  const [toast, setToast] = React.useState<Toast | null>(null);
+  const nextId = React.useRef(0);
+
+  const showToast = React.useCallback((message: string, type: ToastType = 'info') => {
+    nextId.current += 1;
+    setToast({ id: nextId.current, message, type });
+  }, []);
+
+  // Each new toast restarts the timer
+  React.useEffect(() => {
+    if (!toast) return;
+    const timer = setTimeout(() => setToast(null), TOAST_DURATION);
+    return () => clearTimeout(timer);
+  }, [toast]);
+
+  const value = React.useMemo(() => ({ showToast }), [showToast]);
+
+  return (
+    <ToastContext.Provider value={value}>
+      {children}
+      <View style={styles.container} pointerEvents="none">
+        {toast && (
+          <Animated.View
+            key={toast.id}
+            entering={FadeInDown}
+            exiting={FadeOutDown}
+            style={[styles.toast, styles[toast.type]]}>
+            <ThemedText style={styles.text}>{toast.message}</ThemedText>
+          </Animated.View>
+        )}
+      </View>
+    </ToastContext.Provider>
+  );
+};
+
+export const useToast = () => {
+  const ctx = React.useContext(ToastContext);
+  if (!ctx) {
+    throw new Error('useToast must be used within a ToastProvider');
+  }
+  return ctx;
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 20,
+    right: 20,
+    bottom: 48,
+    alignItems: 'center',
+  },
+  toast: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 12,
+    maxWidth: 480,
+  },
+  info: {
+    backgroundColor: '#333',
+  },
+  success: {
+    backgroundColor: '#4CAF50',
+  },
+  error: {
+    backgroundColor: '#f44336',
+  },
+  text: {
+    color: '#fff',
+    fontSize: 14,
+    textAlign: 'center',
+  },
+});
@@ -1,131 +1,297 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { QueryClient, useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { useAuth } from '@/context/auth';
-import { Cart, CartCreate } from '@/types/cart';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-
-const API_URL = process.env.EXPO_PUBLIC_API_URL ?? 'http://localhost:8000';
-const SESSION_ID_KEY = 'cart_session_id';
-
-// Get or create session ID for anonymous users
-async function getSessionId(): Promise<string> {
-  let sessionId = await AsyncStorage.getItem(SESSION_ID_KEY);
-  if (!sessionId) {
-    sessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    await AsyncStorage.setItem(SESSION_ID_KEY, sessionId);
-  }
-  return sessionId;
+import { useToast } from '@/context/toast';
+import { useCountdown } from '@/hooks/use-countdown';
+import { cartApi } from '@/lib/api/endpoints';
+import { getErrorMessage } from '@/lib/api/errors';
+import { CartReview, reconcileCart } from '@/lib/cart-reconciliation';
+import { stepQuantity } from '@/lib/ticket-rules';
+import { fetchEvent } from '@/lib/unlock-codes';
+import { Cart, CartCreate, CartItem } from '@/types/cart';
+import { Event } from '@/types/events';
+
+// Quiet period after the last stepper tap before the cart is posted
+const CART_UPDATE_DEBOUNCE_MS = 500;
+
+type CartSnapshot = {
+  cart: Cart | null | undefined;
+  carts: Cart[] | undefined;
+};
+
+export function getCartSubtotal(cart: Cart): number {
+  return cart.items.reduce((sum, item) => sum + item.price * item.quantity, 0);
 }
 
 // Get cart for an event
 export function useCart(eventId: string) {
-  const { accessToken, user } = useAuth();
+  const { accessToken } = useAuth();
 
   return useQuery<Cart | null>({
     queryKey: ['cart', eventId],
-    queryFn: async () => {
-      const headers: HeadersInit = {
-        'Content-Type': 'application/json',
-      };
-
-      if (accessToken) {
-        headers.Authorization = `Bearer ${accessToken}`;
-      } else {
-        const sessionId = await getSessionId();
-        headers['X-Session-ID'] = sessionId;
-      }
-
-      const response = await fetch(`${API_URL}/api/v1/cart?event_id=${eventId}`, {
-        headers,
-      });
-
-      if (response.status === 404) {
-        return null;
-      }
+    queryFn: () => cartApi.get(eventId, accessToken),
+    enabled: !!eventId,
+    staleTime: 30 * 1000, // 30 seconds
+  });
+}
 
-      if (!response.ok) {
-        throw new Error('Failed to fetch cart');
-      }
+// Get every active cart, across events
+export function useCarts() {
+  const { accessToken } = useAuth();
 
-      return response.json();
-    },
-    enabled: !!eventId,
+  return useQuery<Cart[]>({
+    queryKey: ['carts'],
+    queryFn: () => cartApi.list(accessToken),
     staleTime: 30 * 1000, // 30 seconds
   });
 }
 
-// Add/update cart
+// Write the expected cart into both cart caches before the server answers, returning what to
+// roll back to. `update` returns undefined to leave the caches alone (e.g. no cart cached yet).
+async function applyOptimisticCart(
+  queryClient: QueryClient,
+  eventId: string,
+  update: (previous: Cart | null | undefined) => Cart | null | undefined
+): Promise<CartSnapshot | undefined> {
+  await Promise.all([
+    queryClient.cancelQueries({ queryKey: ['cart', eventId] }),
+    queryClient.cancelQueries({ queryKey: ['carts'] }),
+  ]);
+
+  const snapshot: CartSnapshot = {
+    cart: queryClient.getQueryData<Cart | null>(['cart', eventId]),
+    carts: queryClient.getQueryData<Cart[]>(['carts']),
+  };
+  const next = update(snapshot.cart);
+  if (next === undefined) return undefined;
+
+  queryClient.setQueryData(['cart', eventId], next);
+  if (snapshot.carts) {
+    queryClient.setQueryData(
+      ['carts'],
+      next
+        ? snapshot.carts.map((cart) => (cart.event_id === eventId ? next : cart))
+        : snapshot.carts.filter((cart) => cart.event_id !== eventId)
+    );
+  }
+  return snapshot;
+}
+
+function rollbackCart(queryClient: QueryClient, eventId: string, snapshot: CartSnapshot | undefined) {
+  if (!snapshot) return;
+  queryClient.setQueryData(['cart', eventId], snapshot.cart);
+  queryClient.setQueryData(['carts'], snapshot.carts);
+}
+
+// Add/update cart. The cached cart changes immediately and is rolled back if the server refuses.
 export function useUpdateCart() {
   const { accessToken } = useAuth();
+  const { showToast } = useToast();
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async ({ cartData, sessionId }: { cartData: CartCreate; sessionId?: string }) => {
-      const headers: HeadersInit = {
-        'Content-Type': 'application/json',
-      };
-
-      if (accessToken) {
-        headers.Authorization = `Bearer ${accessToken}`;
-      } else if (sessionId) {
-        headers['X-Session-ID'] = sessionId;
-      } else {
-        const sid = await getSessionId();
-        headers['X-Session-ID'] = sid;
-      }
-
-      const response = await fetch(`${API_URL}/api/v1/cart`, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(cartData),
-      });
-
-      if (!response.ok) {
-        const error = await response.json().catch(() => ({ detail: 'Failed to update cart' }));
-        throw new Error(error.detail || 'Failed to update cart');
-      }
-
-      return response.json();
+    mutationKey: ['cart', 'update'],
+    mutationFn: ({ cartData, sessionId }: { cartData: CartCreate; sessionId?: string }) =>
+      cartApi.update(cartData, accessToken, sessionId),
+    onMutate: ({ cartData }) =>
+      applyOptimisticCart(queryClient, cartData.event_id, (previous) =>
+        previous ? { ...previous, items: cartData.items } : undefined
+      ),
+    onError: (err, { cartData }, snapshot) => {
+      rollbackCart(queryClient, cartData.event_id, snapshot);
+      showToast(getErrorMessage(err, 'Could not update your cart'), 'error');
     },
     onSuccess: (data) => {
-      queryClient.invalidateQueries({ queryKey: ['cart', data.event_id] });
+      // A newer update is already on its way; writing this response would flash the older state
+      if (queryClient.isMutating({ mutationKey: ['cart', 'update'] }) > 1) return;
+      queryClient.setQueryData(['cart', data.event_id], data);
+    },
+    onSettled: (_, __, { cartData }) => {
+      // Same for refetching
+      if (queryClient.isMutating({ mutationKey: ['cart', 'update'] }) > 1) return;
+      queryClient.invalidateQueries({ queryKey: ['cart', cartData.event_id] });
+      queryClient.invalidateQueries({ queryKey: ['carts'] });
     },
   });
 }
 
-// Clear cart
+// Clear cart, optimistically removing it from the cache
 export function useClearCart() {
   const { accessToken } = useAuth();
+  const { showToast } = useToast();
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async ({ eventId, sessionId }: { eventId: string; sessionId?: string }) => {
-      const headers: HeadersInit = {
-        'Content-Type': 'application/json',
-      };
-
-      if (accessToken) {
-        headers.Authorization = `Bearer ${accessToken}`;
-      } else if (sessionId) {
-        headers['X-Session-ID'] = sessionId;
-      } else {
-        const sid = await getSessionId();
-        headers['X-Session-ID'] = sid;
-      }
+    mutationFn: ({ eventId, sessionId }: { eventId: string; sessionId?: string }) =>
+      cartApi.clear(eventId, accessToken, sessionId),
+    onMutate: ({ eventId }) => applyOptimisticCart(queryClient, eventId, () => null),
+    onError: (err, { eventId }, snapshot) => {
+      rollbackCart(queryClient, eventId, snapshot);
+      showToast(getErrorMessage(err, 'Could not clear your cart'), 'error');
+    },
+    onSettled: (_, __, { eventId }) => {
+      queryClient.invalidateQueries({ queryKey: ['cart', eventId] });
+      queryClient.invalidateQueries({ queryKey: ['carts'] });
+    },
+  });
+}
 
-      const response = await fetch(`${API_URL}/api/v1/cart?event_id=${eventId}`, {
-        method: 'DELETE',
-        headers,
-      });
+// Batch rapid quantity changes into a single cart update. `isPending` stays true from the first
+// scheduled change until the server has answered; an empty selection clears the cart.
+export function useDebouncedCartUpdate(eventId: string) {
+  const queryClient = useQueryClient();
+  const { mutate: updateCart, isPending: isUpdating } = useUpdateCart();
+  const { mutate: clearCart, isPending: isClearing } = useClearCart();
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pendingItems = useRef<CartItem[] | null>(null);
+  const [isScheduled, setIsScheduled] = useState(false);
 
-      if (!response.ok) {
-        throw new Error('Failed to clear cart');
-      }
+  const flush = useCallback(() => {
+    if (timer.current) {
+      clearTimeout(timer.current);
+      timer.current = null;
+    }
+    const items = pendingItems.current;
+    pendingItems.current = null;
+    setIsScheduled(false);
+    if (!items) return;
+
+    if (items.length > 0) {
+      updateCart({ cartData: { event_id: eventId, items } });
+    } else if (queryClient.getQueryData<Cart | null>(['cart', eventId])) {
+      clearCart({ eventId });
+    }
+  }, [eventId, queryClient, updateCart, clearCart]);
 
-      return response.json();
+  const schedule = useCallback(
+    (items: CartItem[]) => {
+      pendingItems.current = items;
+      setIsScheduled(true);
+      if (timer.current) {
+        clearTimeout(timer.current);
+      }
+      timer.current = setTimeout(flush, CART_UPDATE_DEBOUNCE_MS);
     },
-    onSuccess: (_, variables) => {
-      queryClient.invalidateQueries({ queryKey: ['cart', variables.eventId] });
+    [flush]
+  );
+
+  // Send any pending change when the screen closes instead of dropping it
+  const flushRef = useRef(flush);
+  useEffect(() => {
+    flushRef.current = flush;
+  }, [flush]);
+  useEffect(() => () => flushRef.current(), []);
+
+  return { schedule, flush, isPending: isScheduled || isUpdating || isClearing };
+}
+
+// Ticket quantities for one event that respond to taps immediately and are saved to the cart
+// once tapping settles
+export function useCartSelection(eventId: string, event: Event | undefined) {
+  const { data: cart } = useCart(eventId);
+  const { schedule, flush, isPending } = useDebouncedCartUpdate(eventId);
+  const [selection, setSelection] = useState<Record<string, number>>({});
+
+  // Mirror the cart whenever no local change is in flight. This also picks up a rollback when an
+  // update fails.
+  useEffect(() => {
+    if (isPending) return;
+    const quantities: Record<string, number> = {};
+    cart?.items.forEach((item) => {
+      quantities[item.ticket_type] = item.quantity;
+    });
+    setSelection(quantities);
+  }, [cart, isPending]);
+
+  const changeQuantity = (ticketType: string, delta: number) => {
+    if (!event) return;
+    const ticketTypeData = event.ticket_types.find((tt) => tt.name === ticketType);
+    if (!ticketTypeData) return;
+
+    const current = selection[ticketType] || 0;
+    const quantity = stepQuantity(ticketTypeData, current, delta);
+    if (quantity === current) return;
+
+    // Zeros stay in the selection until the cart is mirrored again, so a type stepped down to 0
+    // shows 0 rather than falling back to its old cart quantity while the update is pending
+    const updated = { ...selection, [ticketType]: quantity };
+    setSelection(updated);
+
+    schedule(
+      Object.entries(updated)
+        .filter(([, qty]) => qty > 0)
+        .map(([name, qty]) => ({
+          ticket_type: name,
+          quantity: qty,
+          price: event.ticket_types.find((tt) => tt.name === name)?.price ?? 0,
+        }))
+    );
+  };
+
+  return { cart, selection, changeQuantity, isSaving: isPending, flush };
+}
+
+// Total tickets across every cached cart, for the cart badge
+export function useCartItemCount(): number {
+  const { data: carts } = useCarts();
+  return (carts ?? []).reduce(
+    (sum, cart) => sum + cart.items.reduce((count, item) => count + item.quantity, 0),
+    0
+  );
+}
+
+// Extend the cart's reservation (only offered when `cart.can_extend` is set)
+export function useExtendCart() {
+  const { accessToken } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (eventId: string) => cartApi.extend(eventId, accessToken),
+    onSuccess: (data) => {
+      queryClient.setQueryData(['cart', data.event_id], data);
+      queryClient.invalidateQueries({ queryKey: ['carts'] });
     },
   });
 }
 
+// Warn this long before the reservation lapses
+const CART_EXPIRY_WARNING_MS = 2 * 60 * 1000;
+
+// Count down to `cart.expires_at` and refetch the cart once the reservation lapses
+export function useCartExpiry(cart: Cart | null | undefined) {
+  const queryClient = useQueryClient();
+  const { remainingMs, isExpired } = useCountdown(cart ? new Date(cart.expires_at).getTime() : null);
+  const eventId = cart?.event_id;
+
+  useEffect(() => {
+    if (isExpired && eventId) {
+      queryClient.invalidateQueries({ queryKey: ['cart', eventId] });
+      queryClient.invalidateQueries({ queryKey: ['carts'] });
+    }
+  }, [isExpired, eventId, queryClient]);
+
+  return {
+    remainingMs,
+    isExpired,
+    isExpiringSoon: remainingMs !== null && remainingMs <= CART_EXPIRY_WARNING_MS,
+  };
+}
+
+// Re-fetch each cart's event and diff its prices and availability against the cart before checkout
+export function useReconcileCarts() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (carts: Cart[]): Promise<CartReview[]> =>
+      Promise.all(
+        carts.map(async (cart) => {
+          const event = await queryClient.fetchQuery({
+            queryKey: ['event', cart.event_id],
+            queryFn: () => fetchEvent(cart.event_id),
+            staleTime: 0,
+          });
+          return reconcileCart(cart, event);
+        })
+      ),
+  });
+}
@@ -0,0 +1,22 @@
+import { useQuery } from '@tanstack/react-query';
+import { collectionsApi } from '@/lib/api/endpoints';
+import { Event, EventCollection } from '@/types/events';
+
+// Curated collections shown on Explore; the server decides which exist and their order
+export function useCollections() {
+  return useQuery<EventCollection[]>({
+    queryKey: ['collections'],
+    queryFn: collectionsApi.list,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+  });
+}
+
+// Events in one collection, cached separately so each row loads and refreshes on its own
+export function useCollectionEvents(collectionId: string) {
+  return useQuery<Event[]>({
+    queryKey: ['collection', collectionId],
+    queryFn: () => collectionsApi.events(collectionId),
+    enabled: !!collectionId,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+  });
+}
@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+
+// Remaining time until `deadline` (epoch ms), updated every second. Null deadline = no countdown.
+export function useCountdown(deadline: number | null) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (deadline === null) return;
+    setNow(Date.now());
+    const interval = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= deadline) clearInterval(interval);
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [deadline]);
+
+  const remainingMs = deadline === null ? null : Math.max(deadline - now, 0);
+
+  return {
+    remainingMs,
+    isExpired: remainingMs === 0,
+  };
+}
+
+// 754000 -> "12:34"
+export function formatCountdown(ms: number) {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
@@ -1,25 +1,46 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { useAuth } from '@/context/auth';
-import { Event, EventStatus } from '@/types/events';
+import {
+  keepPreviousData,
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from '@tanstack/react-query';
+import { eventsApi } from '@/lib/api/endpoints';
+import { flattenPages, getNextCursor, PAGE_SIZE, refetchFirstPage } from '@/lib/pagination';
+import { QUERY_CACHE_MAX_AGE } from '@/lib/query-client';
+import { fetchEvent, fetchEvents, loadUnlockCodes, saveUnlockCode } from '@/lib/unlock-codes';
+import { Event, EventFacets, EventQuery } from '@/types/events';
 
-const API_URL = process.env.EXPO_PUBLIC_API_URL ?? 'http://localhost:8000';
+const EVENT_STALE_TIME = 2 * 60 * 1000; // 2 minutes
+// For 'events' keys that aren't persisted and so don't need the long lifetime the others get
+const UNPERSISTED_GC_TIME = 10 * 60 * 1000; // 10 minutes
 
-// Fetch all events
-export function useEvents(status?: EventStatus) {
-  return useQuery<Event[]>({
-    queryKey: ['events', status],
-    queryFn: async () => {
-      const url = status
-        ? `${API_URL}/api/v1/events?status=${status}`
-        : `${API_URL}/api/v1/events`;
-      
-      const response = await fetch(url);
-      if (!response.ok) {
-        throw new Error('Failed to fetch events');
-      }
-      return response.json();
-    },
-    staleTime: 2 * 60 * 1000, // 2 minutes
+// Fetch events page by page, optionally filtered by status and a search term.
+// `data` is the flattened list of loaded events; `refresh` reloads from the first page.
+export function useEvents(query: EventQuery = {}) {
+  const queryClient = useQueryClient();
+  const queryKey = ['events', query];
+
+  const result = useInfiniteQuery({
+    queryKey,
+    queryFn: ({ pageParam }) => eventsApi.list(query, { cursor: pageParam, limit: PAGE_SIZE }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: getNextCursor,
+    select: flattenPages,
+    staleTime: EVENT_STALE_TIME,
+    gcTime: query.q ? UNPERSISTED_GC_TIME : QUERY_CACHE_MAX_AGE, // Searches aren't persisted
+    placeholderData: keepPreviousData, // Keep showing results while a new search loads
+  });
+
+  return { ...result, refresh: () => refetchFirstPage(queryClient, queryKey) };
+}
+
+// Venue and price options across all matching events, not just the pages loaded so far
+export function useEventFacets(query: EventQuery = {}) {
+  return useQuery<EventFacets>({
+    queryKey: ['events', 'facets', query],
+    queryFn: () => eventsApi.facets(query),
+    staleTime: 10 * 60 * 1000, // 10 minutes
   });
 }
 
@@ -27,15 +48,64 @@ export function useEvents(status?: EventStatus) {
 export function useEvent(eventId: string) {
   return useQuery<Event>({
     queryKey: ['event', eventId],
+    queryFn: () => fetchEvent(eventId),
+    enabled: !!eventId,
+    staleTime: EVENT_STALE_TIME,
+  });
+}
+
+// Look up many events with a single request, keyed by event_id. Fetched events seed their
+// ['event', id] entries, and events already fresh in that cache aren't requested again, so
+// a growing list only asks for the IDs it hasn't seen.
+export function useEventsByIds(eventIds: string[]) {
+  const queryClient = useQueryClient();
+  const ids = Array.from(new Set(eventIds)).sort();
+
+  return useQuery({
+    queryKey: ['events', 'batch', ids],
     queryFn: async () => {
-      const response = await fetch(`${API_URL}/api/v1/events/${eventId}`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch event');
+      const cutoff = Date.now() - EVENT_STALE_TIME;
+      const missing = ids.filter(
+        (id) => (queryClient.getQueryState<Event>(['event', id])?.dataUpdatedAt ?? 0) < cutoff
+      );
+
+      if (missing.length > 0) {
+        const events = await fetchEvents(missing);
+        events.forEach((event) => queryClient.setQueryData(['event', event.event_id], event));
       }
-      return response.json();
+
+      return ids
+        .map((id) => queryClient.getQueryData<Event>(['event', id]))
+        .filter((event): event is Event => !!event);
     },
-    enabled: !!eventId,
-    staleTime: 2 * 60 * 1000,
+    select: (events) => Object.fromEntries(events.map((event) => [event.event_id, event])),
+    enabled: ids.length > 0,
+    staleTime: EVENT_STALE_TIME,
+    gcTime: UNPERSISTED_GC_TIME,
+    placeholderData: keepPreviousData, // Keep showing known events while new IDs load
   });
 }
 
+// Reveal hidden ticket types with an unlock code. The code is only kept if it unlocked something.
+export function useUnlockTicketTypes(eventId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (code: string) => {
+      const codes = await loadUnlockCodes(eventId);
+      const event = await eventsApi.get(eventId, [...codes, code]);
+
+      const previous = queryClient.getQueryData<Event>(['event', eventId]);
+      const known = new Set(previous?.ticket_types.map((tt) => tt.name) ?? []);
+      if (!event.ticket_types.some((tt) => tt.hidden && !known.has(tt.name))) {
+        throw new Error("That code didn't unlock any tickets");
+      }
+
+      await saveUnlockCode(eventId, code);
+      return event;
+    },
+    onSuccess: (event) => {
+      queryClient.setQueryData(['event', eventId], event);
+    },
+  });
+}
@@ -0,0 +1,11 @@
+import { onlineManager } from '@tanstack/react-query';
+import { useSyncExternalStore } from 'react';
+
+// Mirrors react-query's online state, which is driven by NetInfo in lib/query-client
+export function useOnlineStatus() {
+  return useSyncExternalStore(
+    (onChange) => onlineManager.subscribe(onChange),
+    () => onlineManager.isOnline(),
+    () => true
+  );
+}
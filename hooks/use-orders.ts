@@ -1,35 +1,41 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useInfiniteQuery, useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useEffect, useState } from 'react';
+import { Platform } from 'react-native';
 import { useAuth } from '@/context/auth';
-import { Order, OrderCreate, QRCodeResponse } from '@/types/orders';
+import { useCountdown } from '@/hooks/use-countdown';
+import { useTicketWallet } from '@/hooks/use-ticket-wallet';
+import { cartApi, ordersApi } from '@/lib/api/endpoints';
+import { flattenPages, getNextCursor, PAGE_SIZE, refetchFirstPage } from '@/lib/pagination';
+import { checkoutReturnUrls } from '@/lib/payments/web-checkout';
+import { Cart } from '@/types/cart';
+import { Order, OrderCreate, OrderStatus, QRCodeResponse } from '@/types/orders';
 
-const API_URL = process.env.EXPO_PUBLIC_API_URL ?? 'http://localhost:8000';
+// How long to wait for the payment webhook before telling the user we'll follow up
+const CONFIRMATION_TIMEOUT = 90 * 1000; // 90 seconds
+const TERMINAL_STATUSES: OrderStatus[] = ['paid', 'cancelled', 'refunded'];
 
-// Fetch all orders for current user
+// Used when the backend doesn't send a hold window with the order
+const DEFAULT_HOLD_WINDOW_SECONDS = 15 * 60;
+
+export type ConfirmationPhase = 'idle' | 'confirming' | 'timed_out' | 'paid' | 'cancelled' | 'refunded';
+
+// Fetch the current user's orders page by page, newest first.
+// `data` is the flattened list of loaded orders; `refresh` reloads from the first page.
 export function useOrders() {
   const { accessToken } = useAuth();
+  const queryClient = useQueryClient();
 
-  return useQuery<Order[]>({
+  const result = useInfiniteQuery({
     queryKey: ['orders'],
-    queryFn: async () => {
-      if (!accessToken) {
-        throw new Error('Not authenticated');
-      }
-
-      const response = await fetch(`${API_URL}/api/v1/orders`, {
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch orders');
-      }
-
-      return response.json();
-    },
+    queryFn: ({ pageParam }) => ordersApi.list(accessToken, { cursor: pageParam, limit: PAGE_SIZE }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: getNextCursor,
+    select: flattenPages,
     enabled: !!accessToken,
     staleTime: 1 * 60 * 1000, // 1 minute
   });
+
+  return { ...result, refresh: () => refetchFirstPage(queryClient, ['orders']) };
 }
 
 // Fetch single order
@@ -38,87 +44,165 @@ export function useOrder(orderId: string) {
 
   return useQuery<Order>({
     queryKey: ['order', orderId],
-    queryFn: async () => {
-      if (!accessToken) {
-        throw new Error('Not authenticated');
-      }
+    queryFn: () => ordersApi.get(orderId, accessToken),
+    enabled: !!accessToken && !!orderId,
+  });
+}
 
-      const response = await fetch(`${API_URL}/api/v1/orders/${orderId}`, {
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-        },
-      });
+// Poll an order after payment until the webhook moves it to a terminal status. The interval
+// backs off from 1s to 10s, and polling stops after CONFIRMATION_TIMEOUT.
+export function useOrderConfirmation(orderId: string, active: boolean) {
+  const { accessToken } = useAuth();
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
 
-      if (!response.ok) {
-        throw new Error('Failed to fetch order');
-      }
+  useEffect(() => {
+    setStartedAt(active ? Date.now() : null);
+  }, [active]);
 
-      return response.json();
-    },
+  const query = useQuery<Order>({
+    queryKey: ['order', orderId],
+    queryFn: () => ordersApi.get(orderId, accessToken),
     enabled: !!accessToken && !!orderId,
+    refetchInterval: (q) => {
+      if (startedAt === null) return false;
+      const status = q.state.data?.status;
+      const elapsed = Date.now() - startedAt;
+      if ((status && TERMINAL_STATUSES.includes(status)) || elapsed > CONFIRMATION_TIMEOUT) {
+        return false;
+      }
+      return Math.min(Math.max(elapsed / 4, 1000), 10 * 1000);
+    },
   });
+
+  const status = query.data?.status;
+  const isTerminal = !!status && TERMINAL_STATUSES.includes(status);
+  const elapsed = startedAt === null ? 0 : now - startedAt;
+
+  // Tick once a second so progress and the timeout are reflected without waiting for a fetch
+  useEffect(() => {
+    if (startedAt === null || isTerminal) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [startedAt, isTerminal]);
+
+  let phase: ConfirmationPhase = 'idle';
+  if (isTerminal) {
+    phase = status as ConfirmationPhase;
+  } else if (startedAt !== null) {
+    phase = elapsed > CONFIRMATION_TIMEOUT ? 'timed_out' : 'confirming';
+  }
+
+  return {
+    order: query.data,
+    phase,
+    progress: Math.min(elapsed / CONFIRMATION_TIMEOUT, 1),
+    // Start over after a timeout, e.g. from a "Check again" button
+    restart: () => {
+      setStartedAt(Date.now());
+      setNow(Date.now());
+      query.refetch();
+    },
+  };
+}
+
+function withPaymentOptions(orderData: OrderCreate): OrderCreate {
+  return Platform.OS === 'web'
+    ? // Web can't run the PaymentSheet, so ask for a Stripe Checkout session instead
+      { ...orderData, use_mobile_payment: false, ...checkoutReturnUrls() }
+    : { ...orderData, use_mobile_payment: true };
 }
 
-// Create order
-export function useCreateOrder() {
+function orderFromCart(cart: Cart, promoCode?: string): OrderCreate {
+  return {
+    event_id: cart.event_id,
+    promo_code: promoCode,
+    items: cart.items.map((item) => ({
+      ticket_type: item.ticket_type,
+      quantity: item.quantity,
+      price: item.price,
+      subtotal: item.price * item.quantity,
+    })),
+  };
+}
+
+// Thrown when one cart in a multi-event checkout fails. Orders already created were cancelled,
+// except those listed in `unreleasedOrderIds`, whose cancel request failed too.
+export class CartCheckoutError extends Error {
+  eventId: string;
+  cause: unknown;
+  unreleasedOrderIds: string[];
+
+  constructor(eventId: string, cause: unknown, unreleasedOrderIds: string[] = []) {
+    super(cause instanceof Error && cause.message ? cause.message : 'Failed to create order');
+    this.name = 'CartCheckoutError';
+    this.eventId = eventId;
+    this.cause = cause;
+    this.unreleasedOrderIds = unreleasedOrderIds;
+  }
+}
+
+export type CartCheckoutVariables = {
+  carts: Cart[];
+  promoCodes?: Record<string, string>; // Validated promo code per event
+};
+
+// Check out one or more carts, creating one order per event in sequence. If any order fails,
+// the ones already created are cancelled so no tickets stay held; carts are only cleared once
+// every order exists.
+export function useCartCheckout() {
   const { accessToken } = useAuth();
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (orderData: OrderCreate) => {
-      if (!accessToken) {
-        throw new Error('Not authenticated');
-      }
+    mutationFn: async ({ carts, promoCodes }: CartCheckoutVariables) => {
+      const orders: Order[] = [];
 
-      const response = await fetch(`${API_URL}/api/v1/orders`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${accessToken}`,
-        },
-        body: JSON.stringify({
-          ...orderData,
-          use_mobile_payment: true, // Always use mobile payment for React Native
-        }),
-      });
-
-      if (!response.ok) {
-        const error = await response.json().catch(() => ({ detail: 'Failed to create order' }));
-        throw new Error(error.detail || 'Failed to create order');
+      for (const cart of carts) {
+        try {
+          const orderData = orderFromCart(cart, promoCodes?.[cart.event_id]);
+          orders.push(await ordersApi.create(withPaymentOptions(orderData), accessToken));
+        } catch (err) {
+          const unreleased: string[] = [];
+          for (const order of [...orders].reverse()) {
+            try {
+              await ordersApi.cancel(order.order_id, accessToken);
+            } catch (cancelError) {
+              console.error('[Checkout] ❌ Failed to roll back order', order.order_id, cancelError);
+              unreleased.push(order.order_id);
+            }
+          }
+          throw new CartCheckoutError(cart.event_id, err, unreleased);
+        }
       }
 
-      return response.json();
+      await Promise.all(
+        carts.map((cart) =>
+          cartApi.clear(cart.event_id, accessToken).catch((err) => {
+            console.error('[Checkout] ❌ Failed to clear cart for event', cart.event_id, err);
+          })
+        )
+      );
+      return orders;
     },
-    onSuccess: () => {
+    onSettled: (_, __, { carts }) => {
       queryClient.invalidateQueries({ queryKey: ['orders'] });
+      queryClient.invalidateQueries({ queryKey: ['carts'] });
+      carts.forEach((cart) => queryClient.invalidateQueries({ queryKey: ['cart', cart.event_id] }));
     },
   });
 }
 
-// Get order QR code
+// Get order QR code, falling back to the copy stored in the ticket wallet while offline
 export function useOrderQR(orderId: string) {
   const { accessToken } = useAuth();
+  const { data: wallet } = useTicketWallet();
 
   return useQuery<QRCodeResponse>({
     queryKey: ['order', orderId, 'qr'],
-    queryFn: async () => {
-      if (!accessToken) {
-        throw new Error('Not authenticated');
-      }
-
-      const response = await fetch(`${API_URL}/api/v1/orders/${orderId}/qr`, {
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch QR code');
-      }
-
-      return response.json();
-    },
+    queryFn: () => ordersApi.qr(orderId, accessToken),
     enabled: !!accessToken && !!orderId,
+    placeholderData: wallet?.[orderId]?.qr,
   });
 }
 
@@ -128,25 +212,7 @@ export function useCancelOrder() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (orderId: string) => {
-      if (!accessToken) {
-        throw new Error('Not authenticated');
-      }
-
-      const response = await fetch(`${API_URL}/api/v1/orders/${orderId}/cancel`, {
-        method: 'PATCH',
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-        },
-      });
-
-      if (!response.ok) {
-        const error = await response.json().catch(() => ({ detail: 'Failed to cancel order' }));
-        throw new Error(error.detail || 'Failed to cancel order');
-      }
-
-      return response.json();
-    },
+    mutationFn: (orderId: string) => ordersApi.cancel(orderId, accessToken),
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['orders'] });
       queryClient.invalidateQueries({ queryKey: ['order', data.order_id] });
@@ -154,3 +220,40 @@ export function useCancelOrder() {
   });
 }
 
+// When a pending order's inventory hold lapses (created_at + hold window), or null if not pending
+export function getOrderHoldDeadline(order: Order | undefined): number | null {
+  if (!order || order.status !== 'pending') return null;
+  const holdSeconds = order.hold_window_seconds ?? DEFAULT_HOLD_WINDOW_SECONDS;
+  return new Date(order.created_at).getTime() + holdSeconds * 1000;
+}
+
+// Count down a pending order's hold. The server releases expired holds itself (it knows whether
+// a payment is in flight), so once the countdown runs out this only refetches the order: the hold
+// is "checking" until the order comes back cancelled, and only then "expired". An order that is
+// still pending can still be paid for.
+// Pass `enabled: false` while a payment is processing or confirming so the hold isn't shown as
+// expired for an order the customer may already have paid for.
+export function useOrderHold(order: Order | undefined, enabled = true) {
+  const queryClient = useQueryClient();
+  const countdown = useCountdown(getOrderHoldDeadline(order));
+  const lapsed = enabled && countdown.isExpired;
+  const { remainingMs } = countdown;
+  // Remembered so the screen can tell a lapsed hold from an order cancelled some other way
+  const [expiredOrderId, setExpiredOrderId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!order || !lapsed || expiredOrderId === order.order_id) return;
+    setExpiredOrderId(order.order_id);
+
+    queryClient.invalidateQueries({ queryKey: ['order', order.order_id] });
+    queryClient.invalidateQueries({ queryKey: ['orders'] });
+  }, [order, lapsed, expiredOrderId, queryClient]);
+
+  const noticed = enabled && !!order && expiredOrderId === order.order_id;
+
+  return {
+    remainingMs,
+    isChecking: (lapsed || noticed) && order?.status === 'pending',
+    isExpired: noticed && order?.status === 'cancelled',
+  };
+}
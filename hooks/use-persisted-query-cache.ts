@@ -0,0 +1,40 @@
+import { useQueryClient } from '@tanstack/react-query';
+import { useEffect, useRef } from 'react';
+
+import { removeQueryCache, restoreQueryCache, subscribeQueryCache } from '@/lib/query-client';
+
+// Restore and keep saving the query cache for the signed-in user. Each user gets their own
+// storage key, and signing out wipes both the in-memory and the persisted cache.
+export function usePersistedQueryCache(userId: string | null | undefined) {
+  const queryClient = useQueryClient();
+  const previousUserId = useRef<string | null>(null);
+
+  useEffect(() => {
+    const lastUserId = previousUserId.current;
+    previousUserId.current = userId ?? null;
+
+    if (lastUserId && lastUserId !== userId) {
+      queryClient.clear();
+      if (!userId) {
+        removeQueryCache(lastUserId);
+      }
+    }
+
+    if (!userId) return;
+
+    let unsubscribe: (() => void) | null = null;
+    let cancelled = false;
+
+    // Subscribe only after restoring so the restore itself doesn't overwrite the saved cache
+    restoreQueryCache(queryClient, userId).finally(() => {
+      if (!cancelled) {
+        unsubscribe = subscribeQueryCache(queryClient, userId);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, [queryClient, userId]);
+}
@@ -0,0 +1,57 @@
+import { useQueries } from '@tanstack/react-query';
+import { useAuth } from '@/context/auth';
+import { getCartSubtotal } from '@/hooks/use-cart';
+import { promoApi } from '@/lib/api/endpoints';
+import { NotFoundError, ValidationError } from '@/lib/api/errors';
+import { Cart } from '@/types/cart';
+import { PromoValidation } from '@/types/promo';
+
+// Validate a promo code against each cart. The subtotal is part of the key, so the discount
+// is re-checked whenever the cart changes.
+export function usePromoCode(code: string | null, carts: Cart[]) {
+  const { accessToken } = useAuth();
+
+  const results = useQueries({
+    queries: carts.map((cart) => {
+      const subtotal = getCartSubtotal(cart);
+      return {
+        queryKey: ['promo', code, cart.event_id, subtotal],
+        queryFn: async (): Promise<PromoValidation> => {
+          try {
+            return await promoApi.validate(
+              { code: code!, event_id: cart.event_id, subtotal },
+              accessToken
+            );
+          } catch (err) {
+            // Unknown or malformed codes come back as 404/422 rather than `valid: false`
+            if (err instanceof NotFoundError || err instanceof ValidationError) {
+              return { code: code!, valid: false, discount_amount: 0, message: err.message };
+            }
+            throw err;
+          }
+        },
+        enabled: !!code,
+        staleTime: 60 * 1000, // 1 minute
+      };
+    }),
+  });
+
+  // Only codes the backend accepted, keyed by event
+  const discounts: Record<string, PromoValidation> = {};
+  results.forEach((result, index) => {
+    if (result.data?.valid) {
+      discounts[carts[index].event_id] = result.data;
+    }
+  });
+
+  const isValidating = results.some((result) => result.isFetching);
+  const rejection = results.find((result) => result.data && !result.data.valid)?.data;
+  const failure = results.find((result) => result.error)?.error;
+
+  let error: string | null = null;
+  if (code && !isValidating && Object.keys(discounts).length === 0) {
+    error = rejection?.message || failure?.message || 'This promo code is not valid';
+  }
+
+  return { discounts, isValidating, error };
+}
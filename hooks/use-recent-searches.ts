@@ -0,0 +1,32 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useCallback } from 'react';
+
+import { addRecentSearch, clearRecentSearches, loadRecentSearches } from '@/lib/recent-searches';
+
+// Recent event searches stored on this device
+export function useRecentSearches() {
+  const queryClient = useQueryClient();
+
+  const { data: recentSearches = [] } = useQuery<string[]>({
+    queryKey: ['recent-searches'],
+    queryFn: loadRecentSearches,
+    staleTime: Infinity,
+    networkMode: 'always', // Reads device storage, so it must work offline
+  });
+
+  const remember = useCallback(
+    async (term: string) => {
+      const trimmed = term.trim();
+      if (!trimmed) return;
+      queryClient.setQueryData(['recent-searches'], await addRecentSearch(trimmed));
+    },
+    [queryClient]
+  );
+
+  const clear = useCallback(async () => {
+    await clearRecentSearches();
+    queryClient.setQueryData(['recent-searches'], []);
+  }, [queryClient]);
+
+  return { recentSearches, remember, clear };
+}
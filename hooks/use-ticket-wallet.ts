@@ -0,0 +1,103 @@
+import { onlineManager, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useCallback, useEffect, useRef } from 'react';
+
+import { useAuth } from '@/context/auth';
+import { ordersApi } from '@/lib/api/endpoints';
+import { loadWallet, removeWalletEntries, saveWalletEntry, WalletEntry } from '@/lib/ticket-wallet';
+import { Order } from '@/types/orders';
+
+// Stored QR codes are re-downloaded in the background once they are this old
+const WALLET_REFRESH_AFTER = 6 * 60 * 60 * 1000; // 6 hours
+
+function needsDownload(entry: WalletEntry | undefined) {
+  return !entry || Date.now() - entry.saved_at > WALLET_REFRESH_AFTER;
+}
+
+// Locally stored QR codes for the signed-in user, keyed by order ID
+export function useTicketWallet() {
+  const { user } = useAuth();
+
+  return useQuery<Record<string, WalletEntry>>({
+    queryKey: ['wallet', user?.user_id],
+    queryFn: () => loadWallet(user!.user_id),
+    enabled: !!user,
+    staleTime: Infinity,
+    networkMode: 'always', // Reads device storage, so it must work offline
+  });
+}
+
+// Download an order's QR code into the wallet, e.g. right after payment succeeds
+export function useSaveTicket() {
+  const { user, accessToken } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useCallback(
+    async (orderId: string) => {
+      if (!user) return;
+      const qr = await ordersApi.qr(orderId, accessToken);
+      await saveWalletEntry(user.user_id, qr);
+      queryClient.setQueryData(['order', orderId, 'qr'], qr);
+      await queryClient.invalidateQueries({ queryKey: ['wallet', user.user_id] });
+    },
+    [user, accessToken, queryClient]
+  );
+}
+
+// Keep the wallet in step with the order list: store every paid order's QR code, refresh old
+// ones in the background and drop orders that were cancelled or refunded. `orders` may be only
+// the pages loaded so far, so entries for orders that aren't in it are kept.
+export function useTicketWalletSync(orders: Order[] | undefined) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { data: wallet } = useTicketWallet();
+  const saveTicket = useSaveTicket();
+  const inFlight = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (!user || !orders || !wallet) return;
+
+    const stale = Object.keys(wallet).filter((orderId) => {
+      const order = orders.find((o) => o.order_id === orderId);
+      return !!order && order.status !== 'paid';
+    });
+    if (stale.length > 0) {
+      removeWalletEntries(user.user_id, stale).then(() =>
+        queryClient.invalidateQueries({ queryKey: ['wallet', user.user_id] })
+      );
+    }
+
+    if (!onlineManager.isOnline()) return;
+
+    const due = orders
+      .filter(
+        (order) =>
+          order.status === 'paid' &&
+          !inFlight.current.has(order.order_id) &&
+          needsDownload(wallet[order.order_id])
+      )
+      .map((order) => order.order_id);
+
+    // Claim the whole batch up front: each save refreshes the wallet and re-runs this effect,
+    // which must not start downloading orders this loop hasn't reached yet
+    due.forEach((orderId) => inFlight.current.add(orderId));
+
+    const download = async () => {
+      for (const orderId of due) {
+        try {
+          // The wallet may have changed since this batch was picked, e.g. after a payment
+          const current = await loadWallet(user.user_id);
+          if (needsDownload(current[orderId])) {
+            await saveTicket(orderId);
+          }
+        } catch (err) {
+          // Keep whatever copy we already have; the next sync will try again
+          console.warn('[TicketWallet] ⚠️ Failed to store QR for order', orderId, err);
+        } finally {
+          inFlight.current.delete(orderId);
+        }
+      }
+    };
+
+    download();
+  }, [user, orders, wallet, saveTicket, queryClient]);
+}
@@ -0,0 +1,13 @@
+import { useQuery } from '@tanstack/react-query';
+import { venuesApi } from '@/lib/api/endpoints';
+import { Venue } from '@/types/venues';
+
+// Venue details rarely change, so they're kept fresh for longer than events
+export function useVenue(venueId: string | undefined) {
+  return useQuery<Venue>({
+    queryKey: ['venue', venueId],
+    queryFn: () => venuesApi.get(venueId!),
+    enabled: !!venueId,
+    staleTime: 30 * 60 * 1000, // 30 minutes
+  });
+}
@@ -0,0 +1,135 @@
+// Typed HTTP client shared by every hook and the auth context
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { createApiError, NetworkError, UnauthorizedError } from '@/lib/api/errors';
+
+export const API_URL = process.env.EXPO_PUBLIC_API_URL ?? 'http://localhost:8000';
+
+const SESSION_ID_KEY = 'cart_session_id';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export type QueryParams = Record<string, string | number | boolean | null | undefined>;
+
+export type RequestOptions = {
+  method?: HttpMethod;
+  query?: QueryParams;
+  body?: unknown;
+  /** Bearer token for the current user, if any. */
+  token?: string | null;
+  /** Reject locally with a 401 when no token is available. */
+  requireAuth?: boolean;
+  /** Send the anonymous `X-Session-ID` header when there is no token. */
+  sessionFallback?: boolean;
+  /** Explicit session ID to send instead of the stored one. */
+  sessionId?: string;
+  /** Don't attempt a token refresh on 401 (used by the refresh call itself). */
+  skipRefresh?: boolean;
+};
+
+export type AuthHandlers = {
+  /** Exchange the stored refresh token for a new access token. */
+  refreshAccessToken: () => Promise<string>;
+};
+
+let authHandlers: AuthHandlers | null = null;
+let pendingRefresh: Promise<string> | null = null;
+
+// Registered by AuthProvider so the client can renew tokens without depending on React
+export function setAuthHandlers(handlers: AuthHandlers | null) {
+  authHandlers = handlers;
+}
+
+// Single-flight: concurrent 401s share one refresh request
+export function refreshAccessToken(): Promise<string> {
+  if (!authHandlers) {
+    return Promise.reject(new UnauthorizedError());
+  }
+  if (!pendingRefresh) {
+    pendingRefresh = authHandlers.refreshAccessToken().finally(() => {
+      pendingRefresh = null;
+    });
+  }
+  return pendingRefresh;
+}
+
+// Get or create session ID for anonymous users
+export async function getSessionId(): Promise<string> {
+  let sessionId = await AsyncStorage.getItem(SESSION_ID_KEY);
+  if (!sessionId) {
+    sessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    await AsyncStorage.setItem(SESSION_ID_KEY, sessionId);
+  }
+  return sessionId;
+}
+
+// Drop the anonymous session so the next anonymous request starts a fresh one
+export async function rotateSessionId(): Promise<void> {
+  await AsyncStorage.removeItem(SESSION_ID_KEY);
+}
+
+export function buildUrl(path: string, query?: QueryParams): string {
+  const params = Object.entries(query ?? {})
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`);
+
+  return params.length > 0 ? `${API_URL}${path}?${params.join('&')}` : `${API_URL}${path}`;
+}
+
+async function buildHeaders(options: RequestOptions): Promise<Record<string, string>> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+
+  if (options.token) {
+    headers.Authorization = `Bearer ${options.token}`;
+  } else if (options.sessionId) {
+    headers['X-Session-ID'] = options.sessionId;
+  } else if (options.sessionFallback) {
+    headers['X-Session-ID'] = await getSessionId();
+  }
+
+  return headers;
+}
+
+async function parseBody(response: Response): Promise<unknown> {
+  const text = await response.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+export async function request<T>(path: string, options: RequestOptions = {}): Promise<T> {
+  if (options.requireAuth && !options.token) {
+    throw new UnauthorizedError();
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(buildUrl(path, options.query), {
+      method: options.method ?? 'GET',
+      headers: await buildHeaders(options),
+      body: options.body === undefined ? undefined : JSON.stringify(options.body),
+    });
+  } catch {
+    // fetch only rejects when the request never reached the server
+    throw new NetworkError();
+  }
+
+  // Expired access token: refresh once and replay the original request with the new token
+  if (response.status === 401 && options.token && !options.skipRefresh && authHandlers) {
+    const token = await refreshAccessToken();
+    return request<T>(path, { ...options, token, skipRefresh: true });
+  }
+
+  const payload = await parseBody(response);
+
+  if (!response.ok) {
+    throw createApiError(response.status, payload, response.statusText);
+  }
+
+  return payload as T;
+}
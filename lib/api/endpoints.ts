@@ -0,0 +1,178 @@
+// Endpoint definitions for the ticketing backend
+import { request } from '@/lib/api/client';
+import { NotFoundError } from '@/lib/api/errors';
+import {
+  AuthUserProfile,
+  LoginResponse,
+  RefreshResponse,
+  RegisterResponse,
+  TokenResponse,
+} from '@/types/auth';
+import { Cart, CartCreate } from '@/types/cart';
+import { Event, EventCollection, EventFacets, EventQuery } from '@/types/events';
+import { Order, OrderCreate, QRCodeResponse } from '@/types/orders';
+import { Page, PageQuery } from '@/types/pagination';
+import { Venue } from '@/types/venues';
+import { PromoValidation, PromoValidationRequest } from '@/types/promo';
+
+export const authApi = {
+  login: (email: string, password: string) =>
+    request<LoginResponse>('/api/v1/auth/login', {
+      method: 'POST',
+      body: { email, password },
+    }),
+
+  verifyOtp: (email: string, otpCode: string) =>
+    request<TokenResponse>('/api/v1/auth/verify-otp', {
+      method: 'POST',
+      body: { email, otp_code: otpCode },
+    }),
+
+  register: (email: string, password: string, name: string) =>
+    request<RegisterResponse>('/api/v1/auth/register', {
+      method: 'POST',
+      body: { email, password, name, role: 'customer' },
+    }),
+
+  verifyEmail: (email: string, otpCode: string) =>
+    request<unknown>('/api/v1/auth/verify-email', {
+      method: 'POST',
+      body: { email, otp_code: otpCode },
+    }),
+
+  refresh: (refreshToken: string) =>
+    request<RefreshResponse>('/api/v1/auth/refresh', {
+      method: 'POST',
+      body: { refresh_token: refreshToken },
+      skipRefresh: true,
+    }),
+
+  me: (token: string | null) =>
+    request<AuthUserProfile>('/api/v1/auth/me', { token, requireAuth: true }),
+};
+
+export const eventsApi = {
+  list: (query: EventQuery = {}, page: PageQuery = {}) =>
+    request<Page<Event>>('/api/v1/events', { query: { ...query, ...page } }),
+
+  // Hidden ticket types are only included when a matching unlock code is sent
+  get: (eventId: string, unlockCodes: string[] = []) =>
+    request<Event>(`/api/v1/events/${eventId}`, {
+      query: { unlock_codes: unlockCodes.join(',') },
+    }),
+
+  facets: (query: EventQuery = {}) =>
+    request<EventFacets>('/api/v1/events/facets', { query }),
+
+  // Several events in one round trip; unknown IDs are left out of the response
+  getMany: (eventIds: string[], unlockCodes: string[] = []) =>
+    request<Event[]>('/api/v1/events/batch', {
+      query: { ids: eventIds.join(','), unlock_codes: unlockCodes.join(',') },
+    }),
+};
+
+export const venuesApi = {
+  get: (venueId: string) => request<Venue>(`/api/v1/venues/${venueId}`),
+};
+
+export const collectionsApi = {
+  // In display order
+  list: () => request<EventCollection[]>('/api/v1/collections'),
+
+  events: (collectionId: string) =>
+    request<Event[]>(`/api/v1/collections/${collectionId}/events`),
+};
+
+export const cartApi = {
+  // Every active cart for the current user or anonymous session, one per event
+  list: (token: string | null, sessionId?: string) =>
+    request<Cart[]>('/api/v1/carts', { token, sessionId, sessionFallback: true }),
+
+  // Resolves to null when no cart exists yet for this event
+  get: async (eventId: string, token: string | null, sessionId?: string): Promise<Cart | null> => {
+    try {
+      return await request<Cart>('/api/v1/cart', {
+        query: { event_id: eventId },
+        token,
+        sessionId,
+        sessionFallback: true,
+      });
+    } catch (err) {
+      if (err instanceof NotFoundError) {
+        return null;
+      }
+      throw err;
+    }
+  },
+
+  update: (cartData: CartCreate, token: string | null, sessionId?: string) =>
+    request<Cart>('/api/v1/cart', {
+      method: 'POST',
+      body: cartData,
+      token,
+      sessionId,
+      sessionFallback: true,
+    }),
+
+  extend: (eventId: string, token: string | null) =>
+    request<Cart>('/api/v1/cart/extend', {
+      method: 'POST',
+      query: { event_id: eventId },
+      token,
+      sessionFallback: true,
+    }),
+
+  clear: (eventId: string, token: string | null, sessionId?: string) =>
+    request<unknown>('/api/v1/cart', {
+      method: 'DELETE',
+      query: { event_id: eventId },
+      token,
+      sessionId,
+      sessionFallback: true,
+    }),
+};
+
+export const ordersApi = {
+  // Newest first
+  list: (token: string | null, page: PageQuery = {}) =>
+    request<Page<Order>>('/api/v1/orders', { query: page, token, requireAuth: true }),
+
+  get: (orderId: string, token: string | null) =>
+    request<Order>(`/api/v1/orders/${orderId}`, { token, requireAuth: true }),
+
+  create: (orderData: OrderCreate, token: string | null) =>
+    request<Order>('/api/v1/orders', {
+      method: 'POST',
+      body: orderData,
+      token,
+      requireAuth: true,
+    }),
+
+  qr: (orderId: string, token: string | null) =>
+    request<QRCodeResponse>(`/api/v1/orders/${orderId}/qr`, { token, requireAuth: true }),
+
+  // Only served by the local stub backend used with EXPO_PUBLIC_STRIPE_TEST_MODE
+  confirmTestPayment: (orderId: string, token: string | null) =>
+    request<Order>(`/api/v1/orders/${orderId}/test-confirm`, {
+      method: 'POST',
+      token,
+      requireAuth: true,
+    }),
+
+  cancel: (orderId: string, token: string | null) =>
+    request<Order>(`/api/v1/orders/${orderId}/cancel`, {
+      method: 'PATCH',
+      token,
+      requireAuth: true,
+    }),
+};
+
+export const promoApi = {
+  validate: (promo: PromoValidationRequest, token: string | null) =>
+    request<PromoValidation>('/api/v1/promo-codes/validate', {
+      method: 'POST',
+      body: promo,
+      token,
+      sessionFallback: true,
+    }),
+};
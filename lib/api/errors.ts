@@ -0,0 +1,188 @@
+// Structured error types thrown by the API client
+
+export type ApiErrorCode =
+  | 'network_error'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'sold_out'
+  | 'cart_conflict'
+  | 'validation_error'
+  | 'server_error'
+  | 'unknown_error';
+
+// A single entry of FastAPI's 422 `detail` list
+export type FieldIssue = {
+  loc: (string | number)[];
+  msg: string;
+  type: string;
+};
+
+export class ApiError extends Error {
+  status: number;
+  code: ApiErrorCode;
+  retryable: boolean;
+  detail?: unknown;
+
+  constructor(
+    message: string,
+    status: number,
+    code: ApiErrorCode = 'unknown_error',
+    retryable = false,
+    detail?: unknown
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.retryable = retryable;
+    this.detail = detail;
+  }
+}
+
+export class NetworkError extends ApiError {
+  constructor(message = 'Network error: Could not connect to server. Please check your connection.') {
+    super(message, 0, 'network_error', true);
+    this.name = 'NetworkError';
+  }
+}
+
+export class UnauthorizedError extends ApiError {
+  constructor(message = 'Not authenticated', detail?: unknown) {
+    super(message, 401, 'unauthorized', false, detail);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class ForbiddenError extends ApiError {
+  constructor(message = 'You do not have permission to do that', detail?: unknown) {
+    super(message, 403, 'forbidden', false, detail);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message = 'Not found', detail?: unknown) {
+    super(message, 404, 'not_found', false, detail);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConflictError extends ApiError {
+  constructor(
+    message: string,
+    code: 'conflict' | 'sold_out' | 'cart_conflict' = 'conflict',
+    detail?: unknown
+  ) {
+    super(message, 409, code, false, detail);
+    this.name = 'ConflictError';
+  }
+
+  get isSoldOut() {
+    return this.code === 'sold_out';
+  }
+}
+
+export class ValidationError extends ApiError {
+  issues: FieldIssue[];
+  /** First message per field, keyed by the last segment of `loc`. */
+  fieldErrors: Record<string, string>;
+
+  constructor(message: string, issues: FieldIssue[] = [], detail?: unknown) {
+    super(message, 422, 'validation_error', false, detail);
+    this.name = 'ValidationError';
+    this.issues = issues;
+    this.fieldErrors = {};
+    for (const issue of issues) {
+      const field = String(issue.loc[issue.loc.length - 1] ?? '');
+      if (field && !this.fieldErrors[field]) {
+        this.fieldErrors[field] = issue.msg;
+      }
+    }
+  }
+}
+
+export class ServerError extends ApiError {
+  constructor(message: string, status = 500, detail?: unknown) {
+    super(message, status, 'server_error', true, detail);
+    this.name = 'ServerError';
+  }
+}
+
+function isFieldIssue(value: unknown): value is FieldIssue {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    Array.isArray((value as FieldIssue).loc) &&
+    typeof (value as FieldIssue).msg === 'string'
+  );
+}
+
+function hasStringProp<K extends string>(value: unknown, key: K): value is Record<K, string> {
+  return (
+    !!value && typeof value === 'object' && typeof (value as Record<K, unknown>)[key] === 'string'
+  );
+}
+
+// FastAPI returns `detail` as a string, a `{ code, message }` object or a list of validation issues
+function extractMessage(detail: unknown, payload: unknown, fallback: string): string {
+  if (typeof detail === 'string') return detail;
+  if (Array.isArray(detail) && isFieldIssue(detail[0])) return detail[0].msg;
+  if (hasStringProp(detail, 'message')) return detail.message;
+  if (hasStringProp(payload, 'message')) return payload.message;
+  return fallback;
+}
+
+// Prefer the backend's explicit `code`. Older endpoints only send a message, so fall back to the
+// exact phrases they use for sold-out inventory; anything else stays a plain conflict.
+const SOLD_OUT_PHRASES = ['sold out', 'not enough tickets'];
+
+function conflictCode(detail: unknown, message: string): 'conflict' | 'sold_out' | 'cart_conflict' {
+  if (hasStringProp(detail, 'code')) {
+    if (detail.code === 'sold_out' || detail.code === 'cart_conflict') return detail.code;
+    return 'conflict';
+  }
+
+  const text = message.toLowerCase();
+  return SOLD_OUT_PHRASES.some((phrase) => text.includes(phrase)) ? 'sold_out' : 'conflict';
+}
+
+// Map an HTTP error response onto the matching ApiError subclass
+export function createApiError(status: number, payload: unknown, statusText = ''): ApiError {
+  const detail =
+    payload && typeof payload === 'object' && 'detail' in payload
+      ? (payload as { detail: unknown }).detail
+      : payload;
+  const message = extractMessage(detail, payload, `Server error: ${status} ${statusText}`.trim());
+
+  switch (status) {
+    case 401:
+      return new UnauthorizedError(message, detail);
+    case 403:
+      return new ForbiddenError(message, detail);
+    case 404:
+      return new NotFoundError(message, detail);
+    case 409:
+      return new ConflictError(message, conflictCode(detail, message), detail);
+    case 422:
+      return new ValidationError(
+        message,
+        Array.isArray(detail) ? detail.filter(isFieldIssue) : [],
+        detail
+      );
+    default:
+      if (status >= 500) {
+        return new ServerError(message, status, detail);
+      }
+      return new ApiError(message, status, 'unknown_error', false, detail);
+  }
+}
+
+export function getErrorMessage(err: unknown, fallback: string): string {
+  return err instanceof Error && err.message ? err.message : fallback;
+}
+
+export function isRetryableError(err: unknown): boolean {
+  return err instanceof ApiError ? err.retryable : false;
+}
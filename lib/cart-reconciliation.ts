@@ -0,0 +1,113 @@
+// Compares a cart against a freshly fetched event so checkout never posts stale prices or counts
+import { getQuantityLimits, getSaleState } from '@/lib/ticket-rules';
+import { Cart, CartItem } from '@/types/cart';
+import { Event } from '@/types/events';
+
+export type CartChange =
+  | { kind: 'price_changed'; ticketType: string; oldPrice: number; newPrice: number }
+  | { kind: 'limited'; ticketType: string; requested: number; available: number }
+  | { kind: 'over_limit'; ticketType: string; requested: number; max: number }
+  | { kind: 'below_minimum'; ticketType: string; requested: number; min: number }
+  | { kind: 'not_on_sale'; ticketType: string; upcoming: boolean }
+  | { kind: 'requires'; ticketType: string; requiredType: string }
+  | { kind: 'unavailable'; ticketType: string };
+
+export type CartReview = {
+  cart: Cart;
+  event: Event;
+  changes: CartChange[];
+  /** The cart's items with current prices, and quantities fitted to availability and the rules. */
+  items: CartItem[];
+};
+
+export function reconcileCart(cart: Cart, event: Event, now = Date.now()): CartReview {
+  const changes: CartChange[] = [];
+  const items: CartItem[] = [];
+
+  for (const item of cart.items) {
+    const ticketType = event.ticket_types.find((tt) => tt.name === item.ticket_type);
+    if (!ticketType || ticketType.available <= 0) {
+      changes.push({ kind: 'unavailable', ticketType: item.ticket_type });
+      continue;
+    }
+
+    const saleState = getSaleState(ticketType, now);
+    if (saleState !== 'on_sale') {
+      changes.push({
+        kind: 'not_on_sale',
+        ticketType: item.ticket_type,
+        upcoming: saleState === 'upcoming',
+      });
+      continue;
+    }
+
+    if (ticketType.price !== item.price) {
+      changes.push({
+        kind: 'price_changed',
+        ticketType: item.ticket_type,
+        oldPrice: item.price,
+        newPrice: ticketType.price,
+      });
+    }
+
+    let quantity = item.quantity;
+    if (quantity > ticketType.available) {
+      changes.push({
+        kind: 'limited',
+        ticketType: item.ticket_type,
+        requested: quantity,
+        available: ticketType.available,
+      });
+      quantity = ticketType.available;
+    }
+    if (ticketType.max_per_order !== undefined && quantity > ticketType.max_per_order) {
+      changes.push({
+        kind: 'over_limit',
+        ticketType: item.ticket_type,
+        requested: quantity,
+        max: ticketType.max_per_order,
+      });
+      quantity = ticketType.max_per_order;
+    }
+
+    const { min } = getQuantityLimits(ticketType, now);
+    if (quantity < min) {
+      changes.push({ kind: 'below_minimum', ticketType: item.ticket_type, requested: quantity, min });
+      continue;
+    }
+
+    items.push({ ticket_type: item.ticket_type, quantity, price: ticketType.price });
+  }
+
+  // Bundles and add-ons drop out when the ticket type they depend on isn't in the order
+  const kept = items.filter((item) => {
+    const ticketType = event.ticket_types.find((tt) => tt.name === item.ticket_type);
+    const required = ticketType?.requires_ticket_type;
+    if (required && !items.some((other) => other.ticket_type === required)) {
+      changes.push({ kind: 'requires', ticketType: item.ticket_type, requiredType: required });
+      return false;
+    }
+    return true;
+  });
+
+  return { cart, event, changes, items: kept };
+}
+
+export function describeCartChange(change: CartChange): string {
+  switch (change.kind) {
+    case 'price_changed':
+      return `${change.ticketType}: price changed from $${change.oldPrice.toFixed(2)} to $${change.newPrice.toFixed(2)}`;
+    case 'limited':
+      return `${change.ticketType}: only ${change.available} left (you had ${change.requested})`;
+    case 'over_limit':
+      return `${change.ticketType}: limited to ${change.max} per order (you had ${change.requested})`;
+    case 'below_minimum':
+      return `${change.ticketType}: must be bought in at least ${change.min}, so it was removed`;
+    case 'not_on_sale':
+      return `${change.ticketType}: ${change.upcoming ? 'not on sale yet' : 'sales have ended'}`;
+    case 'requires':
+      return `${change.ticketType}: removed because it requires ${change.requiredType}`;
+    case 'unavailable':
+      return `${change.ticketType}: no longer available`;
+  }
+}
@@ -0,0 +1,116 @@
+// Shared date and time formatting. Event times are shown in the event's own time zone (where
+// the venue is) rather than the device's, so someone travelling sees the real start time.
+import { Event } from '@/types/events';
+
+type DateInput = string | number | Date;
+
+// Only the fields needed to place an event in time
+type EventTime = Pick<Event, 'event_date' | 'timezone'>;
+
+const FORMATS = {
+  full: {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  },
+  medium: { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' },
+  short: { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' },
+  date: { month: 'short', day: 'numeric', year: 'numeric' },
+  longDate: { month: 'long', day: 'numeric', year: 'numeric' },
+  day: { weekday: 'short', month: 'short', day: 'numeric' },
+  monthDay: { month: 'short', day: 'numeric' },
+  weekday: { weekday: 'short' },
+  time: { hour: 'numeric', minute: '2-digit' },
+  hour: { hour: 'numeric' },
+  numericDate: { year: 'numeric', month: 'numeric', day: 'numeric' },
+} satisfies Record<string, Intl.DateTimeFormatOptions>;
+
+export type DateFormat = keyof typeof FORMATS;
+
+export const DEVICE_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Building a DateTimeFormat is slow on Hermes, so each format/zone pair is created once
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(format: DateFormat, timeZone?: string, withZoneName = false) {
+  const key = `${format}|${timeZone ?? ''}|${withZoneName}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat(undefined, {
+      ...FORMATS[format],
+      timeZone,
+      timeZoneName: withZoneName ? 'short' : undefined,
+    });
+    formatters.set(key, formatter);
+  }
+  return formatter;
+}
+
+function toDate(value: DateInput): Date | null {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// Calendar day of `date` in `timeZone`, as a UTC timestamp so days can be subtracted
+function dayNumber(date: Date, timeZone?: string): number {
+  const parts = getFormatter('numericDate', timeZone).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value);
+  return Date.UTC(part('year'), part('month') - 1, part('day')) / (24 * 60 * 60 * 1000);
+}
+
+// True when the zone shows a different wall-clock time than the device at that moment
+function differsFromDevice(date: Date, timeZone?: string): boolean {
+  if (!timeZone || timeZone === DEVICE_TIME_ZONE) return false;
+  return getFormatter('medium', timeZone).format(date) !== getFormatter('medium').format(date);
+}
+
+// Formats an instant in the device's time zone, or in `timeZone` when given.
+// Invalid input is returned unchanged.
+export function formatDate(value: DateInput, format: DateFormat = 'date', timeZone?: string): string {
+  const date = toDate(value);
+  return date ? getFormatter(format, timeZone).format(date) : String(value);
+}
+
+// An event's start time in the venue's time zone. The zone abbreviation is added when it
+// differs from the device's, e.g. "Sat, Mar 7, 2026, 8:00 PM EST".
+export function formatEventDate(event: EventTime, format: DateFormat = 'full'): string {
+  const date = toDate(event.event_date);
+  if (!date) return event.event_date;
+  return getFormatter(format, event.timezone, differsFromDevice(date, event.timezone)).format(date);
+}
+
+// "5:00 PM your time" when the device is in a different zone from the venue, otherwise null.
+// The day is included when it differs too.
+export function getLocalTimeHint(event: EventTime): string | null {
+  const date = toDate(event.event_date);
+  if (!date || !differsFromDevice(date, event.timezone)) return null;
+
+  const sameDay = dayNumber(date, event.timezone) === dayNumber(date);
+  const local = sameDay
+    ? formatDate(date, 'time')
+    : `${formatDate(date, 'day')}, ${formatDate(date, 'time')}`;
+  return `${local} your time`;
+}
+
+// Compact label relative to today in the venue's zone: "Today 8 PM", "Tomorrow 7:30 PM",
+// "Sat 8 PM" within the coming week, then "Mar 14, 8 PM".
+export function formatRelativeEventDate(event: EventTime, now: DateInput = Date.now()): string {
+  const date = toDate(event.event_date);
+  const today = toDate(now);
+  if (!date || !today) return event.event_date;
+
+  const onTheHour = getFormatter('time', event.timezone)
+    .formatToParts(date)
+    .some((part) => part.type === 'minute' && part.value === '00');
+  const time = getFormatter(onTheHour ? 'hour' : 'time', event.timezone).format(date);
+  const days = dayNumber(date, event.timezone) - dayNumber(today, event.timezone);
+
+  if (days === 0) return `Today ${time}`;
+  if (days === 1) return `Tomorrow ${time}`;
+  if (days > 1 && days < 7) return `${getFormatter('weekday', event.timezone).format(date)} ${time}`;
+  return `${getFormatter('monthDay', event.timezone).format(date)}, ${time}`;
+}
@@ -0,0 +1,187 @@
+// Explore tab filters, and how they map to URL params and the event list query
+import { EventCategory, EventQuery, EventSort } from '@/types/events';
+
+export type DatePreset = 'any' | 'tonight' | 'weekend' | 'custom';
+
+export type EventFilters = {
+  when: DatePreset;
+  from?: string; // YYYY-MM-DD, used when `when` is 'custom'
+  to?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  venue?: string;
+  availableOnly: boolean;
+  sort: EventSort;
+  category?: EventCategory;
+  tag?: string;
+};
+
+export type EventFilterParams = {
+  when?: string;
+  from?: string;
+  to?: string;
+  min?: string;
+  max?: string;
+  venue?: string;
+  available?: string;
+  sort?: string;
+  category?: string;
+  tag?: string;
+};
+
+export const DEFAULT_FILTERS: EventFilters = {
+  when: 'any',
+  availableOnly: false,
+  sort: 'soonest',
+};
+
+export const EVENT_CATEGORIES: { value: EventCategory; label: string }[] = [
+  { value: 'music', label: 'Music' },
+  { value: 'sports', label: 'Sports' },
+  { value: 'arts', label: 'Arts & Theatre' },
+  { value: 'comedy', label: 'Comedy' },
+  { value: 'conference', label: 'Conferences' },
+  { value: 'festival', label: 'Festivals' },
+  { value: 'family', label: 'Family' },
+  { value: 'other', label: 'Other' },
+];
+
+const DATE_PRESETS: DatePreset[] = ['any', 'tonight', 'weekend', 'custom'];
+const SORTS: EventSort[] = ['soonest', 'cheapest', 'newest'];
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function single(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value || undefined;
+}
+
+function parsePrice(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const price = Number(value);
+  return Number.isFinite(price) && price >= 0 ? price : undefined;
+}
+
+function parseDay(value: string | undefined): string | undefined {
+  return value && DAY_PATTERN.test(value) ? value : undefined;
+}
+
+// Unknown or malformed params fall back to the defaults, so a hand-edited link still opens
+export function filtersFromParams(
+  params: Partial<Record<keyof EventFilterParams, string | string[]>>
+): EventFilters {
+  const when = single(params.when) as DatePreset | undefined;
+  const sort = single(params.sort) as EventSort | undefined;
+  const category = single(params.category) as EventCategory | undefined;
+
+  return {
+    when: when && DATE_PRESETS.includes(when) ? when : DEFAULT_FILTERS.when,
+    from: parseDay(single(params.from)),
+    to: parseDay(single(params.to)),
+    minPrice: parsePrice(single(params.min)),
+    maxPrice: parsePrice(single(params.max)),
+    venue: single(params.venue),
+    availableOnly: single(params.available) === '1',
+    sort: sort && SORTS.includes(sort) ? sort : DEFAULT_FILTERS.sort,
+    category: EVENT_CATEGORIES.some((option) => option.value === category) ? category : undefined,
+    tag: single(params.tag),
+  };
+}
+
+// Defaults map to undefined so router.setParams drops them from the URL
+export function filtersToParams(filters: EventFilters): Record<keyof EventFilterParams, string | undefined> {
+  const isCustom = filters.when === 'custom';
+  return {
+    when: filters.when !== DEFAULT_FILTERS.when ? filters.when : undefined,
+    from: isCustom ? filters.from : undefined,
+    to: isCustom ? filters.to : undefined,
+    min: filters.minPrice !== undefined ? String(filters.minPrice) : undefined,
+    max: filters.maxPrice !== undefined ? String(filters.maxPrice) : undefined,
+    venue: filters.venue,
+    available: filters.availableOnly ? '1' : undefined,
+    sort: filters.sort !== DEFAULT_FILTERS.sort ? filters.sort : undefined,
+    category: filters.category,
+    tag: filters.tag,
+  };
+}
+
+function startOfDay(date: Date): Date {
+  const d = new Date(date);
+  d.setHours(0, 0, 0, 0);
+  return d;
+}
+
+function endOfDay(date: Date): Date {
+  const d = new Date(date);
+  d.setHours(23, 59, 59, 999);
+  return d;
+}
+
+// Relative presets start at the current hour so the query key stays stable between renders
+function startOfHour(date: Date): Date {
+  const d = new Date(date);
+  d.setMinutes(0, 0, 0);
+  return d;
+}
+
+function parseLocalDay(day: string): Date {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(year, month - 1, date);
+}
+
+export function getDateRange(filters: EventFilters, now = new Date()): { start?: Date; end?: Date } {
+  switch (filters.when) {
+    case 'tonight':
+      return { start: startOfHour(now), end: endOfDay(now) };
+    case 'weekend': {
+      // Friday 5pm through Sunday night; during the weekend itself, from now on
+      const day = now.getDay();
+      const daysToFriday = day === 0 ? -2 : day === 6 ? -1 : 5 - day;
+      const friday = startOfDay(now);
+      friday.setDate(friday.getDate() + daysToFriday);
+      friday.setHours(17);
+      const sunday = new Date(friday);
+      sunday.setDate(friday.getDate() + 2);
+      return {
+        start: friday > now ? friday : startOfHour(now),
+        end: endOfDay(sunday),
+      };
+    }
+    case 'custom':
+      return {
+        start: filters.from ? parseLocalDay(filters.from) : undefined,
+        end: filters.to ? endOfDay(parseLocalDay(filters.to)) : undefined,
+      };
+    default:
+      return {};
+  }
+}
+
+export function toEventQuery(filters: EventFilters, now = new Date()): EventQuery {
+  const { start, end } = getDateRange(filters, now);
+  return {
+    starts_after: start?.toISOString(),
+    starts_before: end?.toISOString(),
+    min_price: filters.minPrice,
+    max_price: filters.maxPrice,
+    venue: filters.venue,
+    available_only: filters.availableOnly || undefined,
+    // The API already sorts by date, so leaving it out keeps the key shared with the plain list
+    sort: filters.sort !== DEFAULT_FILTERS.sort ? filters.sort : undefined,
+    category: filters.category,
+    tag: filters.tag,
+  };
+}
+
+export function getCategoryLabel(category: EventCategory): string {
+  return EVENT_CATEGORIES.find((option) => option.value === category)?.label ?? category;
+}
+
+// How many filters in the sheet differ from the defaults, for the "Filters (n)" button.
+// Sort isn't counted, and category and tag have their own chips.
+export function countActiveFilters(filters: EventFilters): number {
+  return [
+    filters.when !== 'any',
+    filters.minPrice !== undefined || filters.maxPrice !== undefined,
+    !!filters.venue,
+    filters.availableOnly,
+  ].filter(Boolean).length;
+}
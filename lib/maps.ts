@@ -0,0 +1,38 @@
+// Static map images and directions links for venues
+import { Platform } from 'react-native';
+
+import { Venue, VenueAddress } from '@/types/venues';
+
+// Google Static Maps key; without it the map image is left out and only directions are offered
+export const GOOGLE_MAPS_API_KEY = process.env.EXPO_PUBLIC_GOOGLE_MAPS_API_KEY ?? '';
+
+export function formatAddress(address: VenueAddress): string {
+  const locality = [address.city, [address.region, address.postal_code].filter(Boolean).join(' ')]
+    .filter(Boolean)
+    .join(', ');
+  return [address.line1, address.line2, locality, address.country].filter(Boolean).join('\n');
+}
+
+export function getStaticMapUrl(venue: Venue, width: number, height: number): string | null {
+  if (!GOOGLE_MAPS_API_KEY) return null;
+
+  const location = `${venue.latitude},${venue.longitude}`;
+  const params = [
+    `center=${location}`,
+    'zoom=16',
+    `size=${Math.round(width)}x${Math.round(height)}`,
+    'scale=2',
+    `markers=color:red|${location}`,
+    `key=${GOOGLE_MAPS_API_KEY}`,
+  ];
+  return `https://maps.googleapis.com/maps/api/staticmap?${params.map(encodeURI).join('&')}`;
+}
+
+// Opens the platform's maps app with directions to the venue's coordinates
+export function getDirectionsUrl(venue: Venue): string {
+  const destination = `${venue.latitude},${venue.longitude}`;
+  if (Platform.OS === 'ios') {
+    return `https://maps.apple.com/?daddr=${destination}&q=${encodeURIComponent(venue.name)}`;
+  }
+  return `https://www.google.com/maps/dir/?api=1&destination=${destination}`;
+}
@@ -0,0 +1,27 @@
+// Helpers for infinite queries over cursor-paginated endpoints
+import { InfiniteData, QueryClient, QueryKey } from '@tanstack/react-query';
+
+import { Page } from '@/types/pagination';
+
+export const PAGE_SIZE = 20;
+
+export function getNextCursor<T>(lastPage: Page<T>): string | undefined {
+  return lastPage.next_cursor ?? undefined;
+}
+
+export function flattenPages<T>(data: InfiniteData<Page<T>, string | undefined>): T[] {
+  return data.pages.flatMap((page) => page.items);
+}
+
+// Drop everything after the first page so a refetch only loads one page again
+export function keepFirstPage<T>(
+  data: InfiniteData<Page<T>, string | undefined> | undefined
+): InfiniteData<Page<T>, string | undefined> | undefined {
+  return data && { pages: data.pages.slice(0, 1), pageParams: data.pageParams.slice(0, 1) };
+}
+
+// Pull-to-refresh: start over from the first page rather than refetching every loaded page
+export function refetchFirstPage(queryClient: QueryClient, queryKey: QueryKey) {
+  queryClient.setQueryData<InfiniteData<Page<unknown>, string | undefined>>(queryKey, keepFirstPage);
+  return queryClient.refetchQueries({ queryKey, exact: true });
+}
@@ -0,0 +1,13 @@
+// Payment configuration read from the Expo public environment
+export const STRIPE_PUBLISHABLE_KEY = process.env.EXPO_PUBLIC_STRIPE_PUBLISHABLE_KEY ?? '';
+
+// Skips the Stripe SDK and lets a local backend stub mark orders as paid
+export const STRIPE_TEST_MODE = process.env.EXPO_PUBLIC_STRIPE_TEST_MODE === 'true';
+
+export const MERCHANT_DISPLAY_NAME = 'Ticketing';
+
+export type PaymentResult =
+  | { status: 'succeeded' }
+  | { status: 'canceled' }
+  | { status: 'redirected' } // Left the app for Stripe Checkout (web)
+  | { status: 'failed'; message: string };
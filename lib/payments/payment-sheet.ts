@@ -0,0 +1,42 @@
+// Native checkout through the Stripe PaymentSheet
+import {
+  initPaymentSheet,
+  PaymentSheetError,
+  presentPaymentSheet,
+} from '@stripe/stripe-react-native';
+import * as Linking from 'expo-linking';
+
+import { MERCHANT_DISPLAY_NAME, PaymentResult, STRIPE_TEST_MODE } from '@/lib/payments/config';
+import { presentTestPaymentSheet } from '@/lib/payments/test-payment-sheet';
+import { Order } from '@/types/orders';
+
+export async function payForOrder(order: Order): Promise<PaymentResult> {
+  if (STRIPE_TEST_MODE) {
+    return presentTestPaymentSheet(order.total_amount);
+  }
+
+  if (!order.client_secret) {
+    return { status: 'failed', message: 'Payment information not available' };
+  }
+
+  const { error: initError } = await initPaymentSheet({
+    merchantDisplayName: MERCHANT_DISPLAY_NAME,
+    paymentIntentClientSecret: order.client_secret,
+    // Brings the user back into the app after bank redirects (3-D Secure, iDEAL, ...)
+    returnURL: Linking.createURL('stripe-redirect'),
+  });
+
+  if (initError) {
+    return { status: 'failed', message: initError.message };
+  }
+
+  const { error } = await presentPaymentSheet();
+
+  if (!error) {
+    return { status: 'succeeded' };
+  }
+  if (error.code === PaymentSheetError.Canceled) {
+    return { status: 'canceled' };
+  }
+  return { status: 'failed', message: error.message };
+}
@@ -0,0 +1,16 @@
+// The Stripe React Native SDK has no web build, so web pays through Stripe Checkout
+import { PaymentResult, STRIPE_TEST_MODE } from '@/lib/payments/config';
+import { presentTestPaymentSheet } from '@/lib/payments/test-payment-sheet';
+import { redirectToCheckout } from '@/lib/payments/web-checkout';
+import { Order } from '@/types/orders';
+
+export async function payForOrder(order: Order): Promise<PaymentResult> {
+  if (STRIPE_TEST_MODE) {
+    return presentTestPaymentSheet(order.total_amount);
+  }
+  if (!order.checkout_url) {
+    return { status: 'failed', message: 'Checkout session not available for this order.' };
+  }
+  await redirectToCheckout(order);
+  return { status: 'redirected' };
+}
@@ -0,0 +1,23 @@
+// Stand-in for the Stripe PaymentSheet used when STRIPE_TEST_MODE is on
+import { Alert } from 'react-native';
+
+import { PaymentResult } from '@/lib/payments/config';
+
+export function presentTestPaymentSheet(amount: number): Promise<PaymentResult> {
+  return new Promise((resolve) => {
+    Alert.alert(
+      'Test Payment',
+      `Stripe test mode is enabled. Choose the outcome for this $${amount.toFixed(2)} payment.`,
+      [
+        { text: 'Succeed', onPress: () => resolve({ status: 'succeeded' }) },
+        {
+          text: 'Fail',
+          style: 'destructive',
+          onPress: () => resolve({ status: 'failed', message: 'Your card was declined (test mode).' }),
+        },
+        { text: 'Cancel', style: 'cancel', onPress: () => resolve({ status: 'canceled' }) },
+      ],
+      { cancelable: true, onDismiss: () => resolve({ status: 'canceled' }) }
+    );
+  });
+}
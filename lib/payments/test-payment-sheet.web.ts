@@ -0,0 +1,17 @@
+// Web version of the test-mode sheet: Alert.alert buttons don't fire on react-native-web, so
+// the outcome is picked with the browser's confirm dialogs instead
+import { PaymentResult } from '@/lib/payments/config';
+
+export async function presentTestPaymentSheet(amount: number): Promise<PaymentResult> {
+  if (
+    window.confirm(
+      `Stripe test mode is enabled. Press OK to succeed this $${amount.toFixed(2)} payment.`
+    )
+  ) {
+    return { status: 'succeeded' };
+  }
+  if (window.confirm('Simulate a declined card? Press Cancel to cancel the payment instead.')) {
+    return { status: 'failed', message: 'Your card was declined (test mode).' };
+  }
+  return { status: 'canceled' };
+}
@@ -0,0 +1,47 @@
+// Stripe Checkout redirect flow used when the app runs on web
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Linking from 'expo-linking';
+
+import { Order } from '@/types/orders';
+
+const PENDING_CHECKOUT_KEY = 'pending_checkout';
+
+export type PendingCheckout = {
+  order_id: string;
+  session_id?: string;
+};
+
+// Stripe replaces {CHECKOUT_SESSION_ID} itself, so it must not be URL-encoded
+export function checkoutReturnUrls() {
+  return {
+    success_url: `${Linking.createURL('/checkout/success')}?session_id={CHECKOUT_SESSION_ID}`,
+    cancel_url: `${Linking.createURL('/checkout/cancel')}?session_id={CHECKOUT_SESSION_ID}`,
+  };
+}
+
+// Leave the app for Stripe Checkout, remembering which order to reconcile on return
+export async function redirectToCheckout(order: Order) {
+  if (!order.checkout_url) {
+    throw new Error('Checkout session not available');
+  }
+
+  const pending: PendingCheckout = {
+    order_id: order.order_id,
+    session_id: order.stripe_checkout_session_id,
+  };
+  await AsyncStorage.setItem(PENDING_CHECKOUT_KEY, JSON.stringify(pending));
+
+  window.location.assign(order.checkout_url);
+}
+
+// Read and forget the order that was being paid before the redirect
+export async function takePendingCheckout(): Promise<PendingCheckout | null> {
+  const raw = await AsyncStorage.getItem(PENDING_CHECKOUT_KEY);
+  await AsyncStorage.removeItem(PENDING_CHECKOUT_KEY);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
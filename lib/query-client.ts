@@ -0,0 +1,153 @@
+// Shared react-query client and its on-device persistence
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import {
+  dehydrate,
+  DehydratedState,
+  hydrate,
+  onlineManager,
+  Query,
+  QueryClient,
+  QueryKey,
+} from '@tanstack/react-query';
+
+import { isRetryableError } from '@/lib/api/errors';
+
+// Bump when a persisted query's data shape changes so stale caches are discarded
+export const QUERY_CACHE_VERSION = '2';
+
+// Persisted caches older than this are dropped on restore
+export const QUERY_CACHE_MAX_AGE = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+const SAVE_THROTTLE_MS = 1000;
+
+// Only queries that are useful offline are written to disk; carts are too short-lived.
+// The profile isn't needed offline, and entry QR codes already live in the ticket wallet, which
+// drops cancelled orders, so neither is persisted here.
+const PERSISTED_QUERY_ROOTS = [
+  'events',
+  'event',
+  'venue',
+  'collections',
+  'collection',
+  'orders',
+  'order',
+];
+
+type PersistedQueryCache = {
+  version: string;
+  timestamp: number;
+  state: DehydratedState;
+};
+
+// Drive react-query's online state from NetInfo so queries pause instead of failing offline
+onlineManager.setEventListener((setOnline) =>
+  NetInfo.addEventListener((state) => {
+    setOnline(!!state.isConnected);
+  })
+);
+
+export const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      // Only retry network and 5xx failures; 4xx responses won't change on a second attempt
+      retry: (failureCount, error) => isRetryableError(error) && failureCount < 1,
+      staleTime: 5 * 60 * 1000, // 5 minutes
+      gcTime: 10 * 60 * 1000, // 10 minutes
+    },
+  },
+});
+
+// Persisted queries must outlive the persisted cache, otherwise restored entries are collected
+// before use. Everything else keeps the short default above.
+for (const root of PERSISTED_QUERY_ROOTS) {
+  queryClient.setQueryDefaults([root], { gcTime: QUERY_CACHE_MAX_AGE });
+}
+
+function queryCacheKey(userId: string) {
+  return `query_cache_v${QUERY_CACHE_VERSION}_${userId}`;
+}
+
+// Search results are transient; persisting one entry per search term would bloat storage
+function isSearchKey([root, params]: QueryKey) {
+  return root === 'events' && !!params && typeof params === 'object' && !!(params as { q?: string }).q;
+}
+
+// ['events', 'batch', ids] only repeats data already saved under each ['event', id]
+function isBatchKey([root, sub]: QueryKey) {
+  return root === 'events' && sub === 'batch';
+}
+
+// ['order', id, 'qr'] holds the entry token for an order
+function isQrKey([root, , sub]: QueryKey) {
+  return root === 'order' && sub === 'qr';
+}
+
+function isPersistedKey(queryKey: QueryKey) {
+  return (
+    PERSISTED_QUERY_ROOTS.includes(String(queryKey[0])) &&
+    !isSearchKey(queryKey) &&
+    !isBatchKey(queryKey) &&
+    !isQrKey(queryKey)
+  );
+}
+
+function shouldPersistQuery(query: Query) {
+  return query.state.status === 'success' && isPersistedKey(query.queryKey);
+}
+
+export async function restoreQueryCache(client: QueryClient, userId: string) {
+  const raw = await AsyncStorage.getItem(queryCacheKey(userId));
+  if (!raw) return;
+
+  try {
+    const cache: PersistedQueryCache = JSON.parse(raw);
+    if (
+      cache.version !== QUERY_CACHE_VERSION ||
+      Date.now() - cache.timestamp > QUERY_CACHE_MAX_AGE
+    ) {
+      await removeQueryCache(userId);
+      return;
+    }
+    // Caches written by older builds may still hold keys that are no longer persisted; they are
+    // skipped here and disappear from disk on the next save
+    const queries = cache.state.queries.filter((query) => isPersistedKey(query.queryKey));
+    // hydrate() keeps any in-memory entry that is newer than the persisted one
+    hydrate(client, { ...cache.state, queries });
+  } catch (error) {
+    console.error('[QueryCache] ❌ Failed to restore persisted cache:', error);
+    await removeQueryCache(userId);
+  }
+}
+
+// Save the cache whenever it changes (throttled). Returns an unsubscribe function.
+export function subscribeQueryCache(client: QueryClient, userId: string) {
+  let timeout: ReturnType<typeof setTimeout> | null = null;
+
+  const save = () => {
+    timeout = null;
+    const cache: PersistedQueryCache = {
+      version: QUERY_CACHE_VERSION,
+      timestamp: Date.now(),
+      state: dehydrate(client, { shouldDehydrateQuery: shouldPersistQuery }),
+    };
+    AsyncStorage.setItem(queryCacheKey(userId), JSON.stringify(cache)).catch((error) => {
+      console.error('[QueryCache] ❌ Failed to persist cache:', error);
+    });
+  };
+
+  const unsubscribe = client.getQueryCache().subscribe(() => {
+    if (!timeout) {
+      timeout = setTimeout(save, SAVE_THROTTLE_MS);
+    }
+  });
+
+  return () => {
+    unsubscribe();
+    if (timeout) clearTimeout(timeout);
+  };
+}
+
+export function removeQueryCache(userId: string) {
+  return AsyncStorage.removeItem(queryCacheKey(userId));
+}
@@ -0,0 +1,31 @@
+// Event search terms the user ran recently, newest first
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const RECENT_SEARCHES_KEY = 'recent_searches';
+const MAX_RECENT_SEARCHES = 8;
+
+export async function loadRecentSearches(): Promise<string[]> {
+  const raw = await AsyncStorage.getItem(RECENT_SEARCHES_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter((term) => typeof term === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+// Move the term to the front, dropping case-insensitive duplicates and the oldest entries
+export async function addRecentSearch(term: string): Promise<string[]> {
+  const existing = await loadRecentSearches();
+  const next = [term, ...existing.filter((t) => t.toLowerCase() !== term.toLowerCase())].slice(
+    0,
+    MAX_RECENT_SEARCHES
+  );
+  await AsyncStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(next));
+  return next;
+}
+
+export async function clearRecentSearches(): Promise<void> {
+  await AsyncStorage.removeItem(RECENT_SEARCHES_KEY);
+}
@@ -0,0 +1,19 @@
+// Credential storage backed by the iOS Keychain / Android Keystore
+import * as SecureStore from 'expo-secure-store';
+
+export type SecureStorage = {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+};
+
+const OPTIONS: SecureStore.SecureStoreOptions = {
+  // Tokens must be readable for background refreshes, but never leave this device in backups
+  keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY,
+};
+
+export const secureStorage: SecureStorage = {
+  getItem: (key) => SecureStore.getItemAsync(key, OPTIONS),
+  setItem: (key, value) => SecureStore.setItemAsync(key, value, OPTIONS),
+  removeItem: (key) => SecureStore.deleteItemAsync(key, OPTIONS),
+};
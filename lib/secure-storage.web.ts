@@ -0,0 +1,135 @@
+// Web has no keychain: values are AES-GCM encrypted with a non-extractable key kept in IndexedDB,
+// so the ciphertext in localStorage is useless if copied out of the browser profile.
+import type { SecureStorage } from '@/lib/secure-storage';
+
+export type { SecureStorage } from '@/lib/secure-storage';
+
+const PREFIX = 'secure_';
+const DB_NAME = 'secure-storage';
+const STORE_NAME = 'keys';
+const KEY_ID = 'master';
+
+// Used when WebCrypto or IndexedDB are unavailable (SSR, private modes): nothing touches disk
+const memoryStore = new Map<string, string>();
+
+let keyPromise: Promise<CryptoKey> | null = null;
+
+function isSupported(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    typeof indexedDB !== 'undefined' &&
+    typeof localStorage !== 'undefined' &&
+    !!globalThis.crypto?.subtle
+  );
+}
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => req.result.createObjectStore(STORE_NAME);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function idbRequest<T>(
+  db: IDBDatabase,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const req = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    req.onsuccess = () => resolve(req.result as T);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function loadKey(): Promise<CryptoKey> {
+  const db = await openDb();
+  const existing = await idbRequest<CryptoKey | undefined>(db, 'readonly', (store) =>
+    store.get(KEY_ID)
+  );
+  if (existing) return existing;
+
+  const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, [
+    'encrypt',
+    'decrypt',
+  ]);
+  await idbRequest(db, 'readwrite', (store) => store.put(key, KEY_ID));
+  return key;
+}
+
+function getKey(): Promise<CryptoKey> {
+  if (!keyPromise) {
+    keyPromise = loadKey().catch((err) => {
+      keyPromise = null;
+      throw err;
+    });
+  }
+  return keyPromise;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+async function encrypt(value: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const cipher = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await getKey(),
+    new TextEncoder().encode(value)
+  );
+  return `${toBase64(iv)}.${toBase64(new Uint8Array(cipher))}`;
+}
+
+async function decrypt(payload: string, key: CryptoKey): Promise<string> {
+  const [iv, cipher] = payload.split('.');
+  const plain = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(iv) },
+    key,
+    fromBase64(cipher)
+  );
+  return new TextDecoder().decode(plain);
+}
+
+export const secureStorage: SecureStorage = {
+  getItem: async (key) => {
+    if (!isSupported()) return memoryStore.get(key) ?? null;
+
+    const payload = localStorage.getItem(PREFIX + key);
+    if (!payload) return null;
+
+    let cryptoKey: CryptoKey;
+    try {
+      cryptoKey = await getKey();
+    } catch {
+      // IndexedDB may only be unavailable for now; keep the ciphertext for the next read
+      return null;
+    }
+    try {
+      return await decrypt(payload, cryptoKey);
+    } catch {
+      // Key was lost (site data partially cleared) – the ciphertext can never be read again
+      localStorage.removeItem(PREFIX + key);
+      return null;
+    }
+  },
+  setItem: async (key, value) => {
+    if (!isSupported()) {
+      memoryStore.set(key, value);
+      return;
+    }
+    localStorage.setItem(PREFIX + key, await encrypt(value));
+  },
+  removeItem: async (key) => {
+    memoryStore.delete(key);
+    if (isSupported()) {
+      localStorage.removeItem(PREFIX + key);
+    }
+  },
+};
@@ -0,0 +1,66 @@
+// Carries the anonymous session's carts over to the user's carts on sign-in
+import { getSessionId, rotateSessionId } from '@/lib/api/client';
+import { cartApi } from '@/lib/api/endpoints';
+import { fetchEvent } from '@/lib/unlock-codes';
+import { Cart, CartItem } from '@/types/cart';
+import { Event } from '@/types/events';
+
+// Sum quantities per ticket type, capped at what's still available. Ticket types the event
+// no longer offers are dropped.
+function mergeCartItems(sessionItems: CartItem[], userItems: CartItem[], event: Event): CartItem[] {
+  const quantities = new Map<string, number>();
+  for (const item of [...userItems, ...sessionItems]) {
+    quantities.set(item.ticket_type, (quantities.get(item.ticket_type) ?? 0) + item.quantity);
+  }
+
+  const merged: CartItem[] = [];
+  quantities.forEach((quantity, ticketTypeName) => {
+    const ticketType = event.ticket_types.find((tt) => tt.name === ticketTypeName);
+    if (!ticketType) return;
+
+    const capped = Math.min(quantity, ticketType.available);
+    if (capped > 0) {
+      merged.push({ ticket_type: ticketTypeName, quantity: capped, price: ticketType.price });
+    }
+  });
+  return merged;
+}
+
+async function mergeEventCart(sessionCart: Cart, sessionId: string, token: string): Promise<void> {
+  const eventId = sessionCart.event_id;
+  const [userCart, event] = await Promise.all([cartApi.get(eventId, token), fetchEvent(eventId)]);
+  const items = mergeCartItems(sessionCart.items, userCart?.items ?? [], event);
+
+  if (items.length > 0) {
+    await cartApi.update({ event_id: eventId, items }, token);
+  }
+  await cartApi.clear(eventId, null, sessionId);
+}
+
+/**
+ * Merge every anonymous session cart into the signed-in user's carts, then rotate the session ID.
+ * If any event fails to merge the session is kept, so its carts aren't orphaned.
+ * Returns the IDs of the events whose carts changed.
+ */
+export async function mergeSessionCarts(token: string): Promise<string[]> {
+  const sessionId = await getSessionId();
+  const sessionCarts = (await cartApi.list(null, sessionId)).filter((cart) => cart.items.length > 0);
+
+  const merged: string[] = [];
+  let failed = false;
+
+  for (const sessionCart of sessionCarts) {
+    try {
+      await mergeEventCart(sessionCart, sessionId, token);
+      merged.push(sessionCart.event_id);
+    } catch (err) {
+      console.error('[SessionCart] ❌ Failed to merge cart for event', sessionCart.event_id, err);
+      failed = true;
+    }
+  }
+
+  if (!failed) {
+    await rotateSessionId();
+  }
+  return merged;
+}
@@ -0,0 +1,126 @@
+// Purchase rules carried on each TicketType: per-order limits, sale windows and bundles
+import { formatDate } from '@/lib/dates';
+import { Event, TicketType } from '@/types/events';
+
+export type SaleState = 'upcoming' | 'on_sale' | 'ended';
+
+export type TicketRuleViolation = {
+  ticketType: string;
+  message: string;
+};
+
+export function getSaleState(ticketType: TicketType, now = Date.now()): SaleState {
+  if (ticketType.sale_starts_at && now < new Date(ticketType.sale_starts_at).getTime()) {
+    return 'upcoming';
+  }
+  if (ticketType.sale_ends_at && now >= new Date(ticketType.sale_ends_at).getTime()) {
+    return 'ended';
+  }
+  return 'on_sale';
+}
+
+// The quantities a single order may hold; `max` is 0 when the type can't be bought right now
+export function getQuantityLimits(ticketType: TicketType, now = Date.now()) {
+  const min = Math.max(ticketType.min_per_order ?? 1, 1);
+  const max =
+    getSaleState(ticketType, now) === 'on_sale'
+      ? Math.min(ticketType.available, ticketType.max_per_order ?? Infinity)
+      : 0;
+  return { min, max: max >= min ? max : 0 };
+}
+
+// Step a quantity while respecting the limits: stepping up from zero jumps to the minimum, and
+// stepping down from the minimum drops to zero
+export function stepQuantity(ticketType: TicketType, current: number, delta: number, now = Date.now()) {
+  const { min, max } = getQuantityLimits(ticketType, now);
+  const next = current + delta;
+
+  if (next <= 0 || (delta < 0 && next < min)) return 0;
+  if (max === 0) return Math.min(current, next);
+  if (next < min) return min;
+  return Math.min(next, max);
+}
+
+// Whether one more ticket of this type can be added to the selection
+export function canAddTicket(
+  ticketType: TicketType,
+  quantities: Record<string, number>,
+  now = Date.now()
+): boolean {
+  const required = ticketType.requires_ticket_type;
+  if (required && !(quantities[required] > 0)) return false;
+  return (quantities[ticketType.name] || 0) < getQuantityLimits(ticketType, now).max;
+}
+
+// Everything wrong with a selection (ticket type name → quantity) for this event
+export function validateSelection(
+  event: Event,
+  quantities: Record<string, number>,
+  now = Date.now()
+): TicketRuleViolation[] {
+  const violations: TicketRuleViolation[] = [];
+
+  for (const [name, quantity] of Object.entries(quantities)) {
+    if (quantity <= 0) continue;
+    const ticketType = event.ticket_types.find((tt) => tt.name === name);
+    if (!ticketType) continue;
+
+    const saleState = getSaleState(ticketType, now);
+    if (saleState !== 'on_sale') {
+      violations.push({
+        ticketType: name,
+        message: saleState === 'upcoming' ? `${name} isn't on sale yet` : `Sales for ${name} have ended`,
+      });
+      continue;
+    }
+
+    const { min } = getQuantityLimits(ticketType, now);
+    if (quantity < min) {
+      violations.push({ ticketType: name, message: `${name} must be bought in at least ${min}` });
+    }
+    if (ticketType.max_per_order !== undefined && quantity > ticketType.max_per_order) {
+      violations.push({
+        ticketType: name,
+        message: `${name} is limited to ${ticketType.max_per_order} per order`,
+      });
+    }
+
+    const required = ticketType.requires_ticket_type;
+    if (required && !(quantities[required] > 0)) {
+      violations.push({ ticketType: name, message: `${name} requires at least one ${required}` });
+    }
+  }
+
+  return violations;
+}
+
+// Short human-readable summary of the rules that apply to a ticket type. Sale times are shown
+// in `timeZone`, the event's zone, when given.
+export function describeTicketRules(
+  ticketType: TicketType,
+  timeZone?: string,
+  now = Date.now()
+): string[] {
+  const rules: string[] = [];
+  const formatDay = (iso: string) => formatDate(iso, 'short', timeZone);
+
+  const saleState = getSaleState(ticketType, now);
+  if (saleState === 'upcoming' && ticketType.sale_starts_at) {
+    rules.push(`On sale ${formatDay(ticketType.sale_starts_at)}`);
+  } else if (saleState === 'ended') {
+    rules.push('Sales ended');
+  } else if (ticketType.sale_ends_at) {
+    rules.push(`Sales end ${formatDay(ticketType.sale_ends_at)}`);
+  }
+
+  if (ticketType.min_per_order && ticketType.min_per_order > 1) {
+    rules.push(`Min ${ticketType.min_per_order} per order`);
+  }
+  if (ticketType.max_per_order !== undefined) {
+    rules.push(`Max ${ticketType.max_per_order} per order`);
+  }
+  if (ticketType.requires_ticket_type) {
+    rules.push(`Requires ${ticketType.requires_ticket_type}`);
+  }
+  return rules;
+}
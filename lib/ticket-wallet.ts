@@ -0,0 +1,67 @@
+// Locally stored entry QR codes so paid tickets can be shown without connectivity
+// Stored in plain AsyncStorage: the QR image encodes the token, so both are readable on device.
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { QRCodeResponse } from '@/types/orders';
+
+const WALLET_KEY = 'ticket_wallet_v1';
+
+export type WalletEntry = {
+  qr: QRCodeResponse;
+  saved_at: number;
+};
+
+type StoredWallet = {
+  user_id: string;
+  entries: Record<string, WalletEntry>;
+};
+
+// Every write reads the whole wallet first, so writes run one at a time to avoid losing entries
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function queueWrite<T>(write: () => Promise<T>): Promise<T> {
+  const result = writeQueue.then(write, write);
+  writeQueue = result.catch(() => undefined);
+  return result;
+}
+
+async function readWallet(): Promise<StoredWallet | null> {
+  const raw = await AsyncStorage.getItem(WALLET_KEY);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
+
+// Entries keyed by order ID; a wallet written for another user is ignored
+export async function loadWallet(userId: string): Promise<Record<string, WalletEntry>> {
+  const wallet = await readWallet();
+  return wallet?.user_id === userId ? wallet.entries : {};
+}
+
+export function saveWalletEntry(userId: string, qr: QRCodeResponse): Promise<WalletEntry> {
+  return queueWrite(async () => {
+    const entries = await loadWallet(userId);
+    const entry: WalletEntry = { qr, saved_at: Date.now() };
+    const wallet: StoredWallet = {
+      user_id: userId,
+      entries: { ...entries, [qr.order_id]: entry },
+    };
+    await AsyncStorage.setItem(WALLET_KEY, JSON.stringify(wallet));
+    return entry;
+  });
+}
+
+export function removeWalletEntries(userId: string, orderIds: string[]) {
+  return queueWrite(async () => {
+    const entries = { ...(await loadWallet(userId)) };
+    orderIds.forEach((orderId) => delete entries[orderId]);
+    await AsyncStorage.setItem(WALLET_KEY, JSON.stringify({ user_id: userId, entries }));
+  });
+}
+
+export function clearWallet() {
+  return queueWrite(() => AsyncStorage.removeItem(WALLET_KEY));
+}
@@ -0,0 +1,43 @@
+// Unlock codes entered per event, so hidden ticket types stay visible on every later fetch
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { eventsApi } from '@/lib/api/endpoints';
+import { Event } from '@/types/events';
+
+const UNLOCK_CODES_KEY = 'event_unlock_codes';
+
+async function readUnlockCodes(): Promise<Record<string, string[]>> {
+  const raw = await AsyncStorage.getItem(UNLOCK_CODES_KEY);
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return {};
+  }
+}
+
+export async function loadUnlockCodes(eventId: string): Promise<string[]> {
+  const codes = await readUnlockCodes();
+  return codes[eventId] ?? [];
+}
+
+export async function saveUnlockCode(eventId: string, code: string): Promise<void> {
+  const codes = await readUnlockCodes();
+  const existing = codes[eventId] ?? [];
+  if (existing.includes(code)) return;
+  await AsyncStorage.setItem(
+    UNLOCK_CODES_KEY,
+    JSON.stringify({ ...codes, [eventId]: [...existing, code] })
+  );
+}
+
+// Fetch an event along with any ticket types this device has unlocked
+export async function fetchEvent(eventId: string): Promise<Event> {
+  return eventsApi.get(eventId, await loadUnlockCodes(eventId));
+}
+
+// Batch version of fetchEvent, sending the unlock codes of every requested event
+export async function fetchEvents(eventIds: string[]): Promise<Event[]> {
+  const codes = await readUnlockCodes();
+  return eventsApi.getMany(eventIds, eventIds.flatMap((eventId) => codes[eventId] ?? []));
+}
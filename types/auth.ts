@@ -0,0 +1,31 @@
+// Auth types matching backend models
+export type AuthUser = {
+  user_id: string;
+  email: string;
+  name?: string;
+  role: string;
+};
+
+export type AuthUserProfile = AuthUser & {
+  created_at?: string;
+};
+
+export type LoginResponse = {
+  email: string;
+  message: string;
+};
+
+export type RegisterResponse = {
+  email: string;
+};
+
+export type TokenResponse = {
+  access_token: string;
+  refresh_token?: string;
+  user: AuthUser;
+};
+
+export type RefreshResponse = {
+  access_token: string;
+  refresh_token?: string; // Present when the backend rotates refresh tokens
+};
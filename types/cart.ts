@@ -14,6 +14,7 @@ export type Cart = {
   created_at: string;
   updated_at: string;
   expires_at: string;
+  can_extend?: boolean; // Whether the reservation can still be extended
 };
 
 export type CartCreate = {
@@ -1,34 +1,90 @@
 // Event types matching backend models
 export type EventStatus = 'active' | 'cancelled' | 'completed' | 'draft';
 
+export type EventCategory =
+  | 'music'
+  | 'sports'
+  | 'arts'
+  | 'comedy'
+  | 'conference'
+  | 'festival'
+  | 'family'
+  | 'other';
+
 export type TicketType = {
   name: string;
   price: number;
   quantity: number;
   available: number;
+  min_per_order?: number;
+  max_per_order?: number;
+  sale_starts_at?: string; // ISO datetime string
+  sale_ends_at?: string;
+  hidden?: boolean; // Only returned once unlocked with a code
+  requires_ticket_type?: string; // Bundle/add-on that can only be bought alongside this type
 };
 
 export type Event = {
   event_id: string;
   title: string;
   description: string;
-  venue: string;
+  venue: string; // Venue name, for display
+  venue_id?: string; // Links to the full Venue record when the event has one
   event_date: string; // ISO datetime string
+  timezone?: string; // IANA zone of the venue, e.g. "America/New_York"
   ticket_types: TicketType[];
   status: EventStatus;
+  category?: EventCategory;
+  tags?: string[]; // Free-form genres and keywords, e.g. "jazz", "outdoor"
   image_url?: string;
   created_at: string;
   updated_at?: string;
   deleted_at?: string;
 };
 
+export type EventSort = 'soonest' | 'cheapest' | 'newest';
+
+// Filters for the event list endpoint
+export type EventQuery = {
+  status?: EventStatus;
+  q?: string; // Full-text search over title, description and venue
+  starts_after?: string; // ISO datetime string
+  starts_before?: string;
+  min_price?: number; // Compared against the cheapest ticket type
+  max_price?: number;
+  venue?: string;
+  venue_id?: string;
+  available_only?: boolean; // At least one ticket type with tickets left
+  sort?: EventSort; // soonest: event_date, cheapest: lowest price, newest: created_at
+  category?: EventCategory;
+  tag?: string;
+};
+
+// Values across every event matching a query, for filter options that can't come from one page
+export type EventFacets = {
+  venues: string[];
+  min_price: number | null; // null when no event has ticket types
+  max_price: number | null;
+};
+
+// Curated, server-defined list such as "Featured" or "Almost sold out"
+export type EventCollection = {
+  collection_id: string;
+  title: string;
+  description?: string;
+};
+
 export type EventCreate = {
   title: string;
   description: string;
   venue: string;
+  venue_id?: string;
   event_date: string;
+  timezone?: string;
   ticket_types: TicketType[];
   status?: EventStatus;
+  category?: EventCategory;
+  tags?: string[];
   image_url?: string;
 };
 
@@ -36,9 +92,13 @@ export type EventUpdate = {
   title?: string;
   description?: string;
   venue?: string;
+  venue_id?: string;
   event_date?: string;
+  timezone?: string;
   ticket_types?: TicketType[];
   status?: EventStatus;
+  category?: EventCategory;
+  tags?: string[];
   image_url?: string;
 };
 
@@ -17,11 +17,14 @@ export type Order = {
   stripe_fees: number;
   net_amount: number;
   status: OrderStatus;
+  promo_code?: string;
+  discount_amount?: number; // Already taken off total_amount
   stripe_payment_intent_id?: string;
   client_secret?: string; // For mobile payment
   stripe_checkout_session_id?: string;
   checkout_url?: string; // For web checkout
   created_at: string;
+  hold_window_seconds?: number; // How long a pending order reserves inventory
   paid_at?: string;
   refunded_amount?: number;
   refunded_at?: string;
@@ -31,6 +34,9 @@ export type OrderCreate = {
   event_id: string;
   items: OrderItem[];
   use_mobile_payment?: boolean;
+  promo_code?: string;
+  success_url?: string; // Stripe Checkout return URLs (web only)
+  cancel_url?: string;
 };
 
 export type QRCodeResponse = {
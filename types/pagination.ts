@@ -0,0 +1,10 @@
+// Cursor pagination shared by the list endpoints
+export type PageQuery = {
+  cursor?: string; // Opaque cursor from the previous page's next_cursor
+  limit?: number;
+};
+
+export type Page<T> = {
+  items: T[];
+  next_cursor: string | null; // null on the last page
+};
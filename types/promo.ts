@@ -0,0 +1,17 @@
+// Promo code types matching backend models
+export type DiscountType = 'percentage' | 'fixed';
+
+export type PromoValidationRequest = {
+  code: string;
+  event_id: string;
+  subtotal: number;
+};
+
+export type PromoValidation = {
+  code: string;
+  valid: boolean;
+  discount_type?: DiscountType;
+  discount_value?: number; // Percent off or a fixed amount, depending on discount_type
+  discount_amount: number; // What the code takes off the given subtotal
+  message?: string; // Why the code was rejected
+};
@@ -0,0 +1,22 @@
+// Venue types matching backend models
+export type VenueAddress = {
+  line1: string;
+  line2?: string;
+  city: string;
+  region?: string; // State or province
+  postal_code?: string;
+  country: string;
+};
+
+export type Venue = {
+  venue_id: string;
+  name: string;
+  address: VenueAddress;
+  latitude: number;
+  longitude: number;
+  timezone?: string; // IANA zone, e.g. "Europe/London"
+  capacity?: number;
+  accessibility_notes?: string;
+  entrance_notes?: string; // Which door to use, box office location, etc.
+  image_url?: string;
+};